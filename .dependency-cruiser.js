@@ -32,6 +32,7 @@ export default {
           '^apps/.*/src/routes/', // Route files are entry points
           '^apps/.*/src/plugins/', // Plugin files are registered separately
           '^apps/.*/src/(server|app)\\.ts$', // Server entry points
+          '^apps/.*/src/cli/', // CLI entry points
         ],
       },
       to: {},
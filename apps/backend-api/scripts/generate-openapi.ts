@@ -0,0 +1,16 @@
+/**
+ * OpenAPI generator for the backend API
+ *
+ * Builds the application in-process and writes its OpenAPI document, or
+ * checks that the committed one is up to date:
+ *
+ *   pnpm openapi:generate
+ *   pnpm openapi:generate --yaml
+ *   pnpm openapi:check
+ */
+
+import { runOpenApiCli } from '../src/openapi-spec.js';
+
+import { buildSpec } from './openapi-app.js';
+
+process.exitCode = await runOpenApiCli(process.argv.slice(2), buildSpec);
@@ -0,0 +1,43 @@
+/**
+ * Builds the application for the OpenAPI scripts: the same app the tests
+ * use, loaded with the configuration of one environment
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { loadAppConfig, type LoadedAppConfig } from '../src/config.js';
+import { build } from '../test/helper.js';
+
+// Loaded from an empty directory so local .env files cannot change the
+// document: it only reflects the schema defaults
+const loadDefaultConfig = (nodeEnv: string): LoadedAppConfig => {
+  const cwd = mkdtempSync(join(tmpdir(), 'openapi-'));
+  try {
+    return loadAppConfig({
+      cwd,
+      env: { NODE_ENV: nodeEnv },
+      envSource: '--env',
+    });
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Produces the application's OpenAPI document
+ * @param nodeEnv - NODE_ENV to load the configuration for
+ * @returns The document as plain JSON, as it is written to disk
+ */
+export async function buildSpec(
+  nodeEnv: string
+): Promise<Record<string, unknown>> {
+  const app = await build({ config: loadDefaultConfig(nodeEnv) });
+
+  try {
+    return JSON.parse(JSON.stringify(app.swagger())) as Record<string, unknown>;
+  } finally {
+    await app.close();
+  }
+}
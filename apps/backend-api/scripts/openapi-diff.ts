@@ -0,0 +1,18 @@
+/**
+ * OpenAPI diff CLI for the backend API
+ *
+ * Builds the application, compares its OpenAPI document with the committed
+ * openapi.json and proposes the next SDK version:
+ *
+ *   pnpm openapi:diff
+ *   pnpm openapi:diff --write
+ */
+
+import { runOpenApiDiffCli } from '../src/openapi-diff.js';
+
+import { buildSpec } from './openapi-app.js';
+
+process.exitCode = runOpenApiDiffCli(
+  await buildSpec('development'),
+  process.argv.slice(2)
+);
@@ -5,23 +5,40 @@ import AutoLoad from '@fastify/autoload';
 import type { AutoloadPluginOptions } from '@fastify/autoload';
 import type { FastifyPluginAsync, FastifyServerOptions } from 'fastify';
 
-import envPlugin from './plugins/env.js';
+import envPlugin, { type EnvPluginOptions } from './plugins/env.js';
+import type { SwaggerPluginOptions } from './plugins/swagger.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 export interface AppOptions
   extends FastifyServerOptions,
-    Partial<AutoloadPluginOptions> {}
+    Partial<AutoloadPluginOptions>,
+    EnvPluginOptions,
+    SwaggerPluginOptions {}
 // Pass --options via CLI arguments in command to enable these options.
 const options: AppOptions = {};
 
+// How this service presents itself in its OpenAPI document
+const apiDocs: SwaggerPluginOptions = {
+  title: 'AI Fastify Template API',
+  tags: [
+    { name: 'Root', description: 'Root endpoints' },
+    { name: 'Example', description: 'Example endpoints' },
+    { name: 'Health', description: 'Liveness and readiness probes' },
+  ],
+};
+
 const app: FastifyPluginAsync<AppOptions> = async (
   fastify,
   opts
 ): Promise<void> => {
   // Register env plugin first
-  await fastify.register(envPlugin);
+  await fastify.register(envPlugin, {
+    ...(opts.envDir !== undefined && { envDir: opts.envDir }),
+    ...(opts.config !== undefined && { config: opts.config }),
+    ...(opts.reloadSignal !== undefined && { reloadSignal: opts.reloadSignal }),
+  });
 
   // Place here your custom code!
 
@@ -33,15 +50,18 @@ const app: FastifyPluginAsync<AppOptions> = async (
   void fastify.register(AutoLoad, {
     dir: join(__dirname, 'plugins'),
     ignorePattern: /.*env\.(ts|js)$/,
-    options: opts,
+    options: { ...apiDocs, ...opts },
   });
 
   // This loads all plugins defined in routes
   // define your routes in one of these
-  void fastify.register(AutoLoad, {
-    dir: join(__dirname, 'routes'),
-    options: opts,
-  });
+  // (skipped with MOCK_MODE=true: plugins/mock.ts answers from openapi.json)
+  if (!fastify.config.MOCK_MODE) {
+    void fastify.register(AutoLoad, {
+      dir: join(__dirname, 'routes'),
+      options: opts,
+    });
+  }
 };
 
 export default app;
@@ -0,0 +1,21 @@
+/**
+ * Configuration CLI for the backend API
+ *
+ * Uses the same schema as the env plugin, so it can validate an environment,
+ * print the effective configuration and regenerate .env.example offline:
+ *
+ *   pnpm config:validate --env production
+ *   pnpm config:validate --env production --app-env staging
+ *   pnpm config:print
+ *   pnpm config:example
+ */
+
+import { runConfigCli } from '@ai-fastify-template/config';
+
+import { appConfig, ENV_EXAMPLE_HEADER } from '../config.js';
+import { createSafeConfig } from '../plugins/env.js';
+
+process.exitCode = runConfigCli(appConfig, process.argv.slice(2), {
+  redact: createSafeConfig,
+  exampleHeader: ENV_EXAMPLE_HEADER,
+});
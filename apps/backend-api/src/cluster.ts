@@ -0,0 +1,288 @@
+import { availableParallelism } from 'node:os';
+
+import {
+  durationMsSchema,
+  inheritedSocketCount,
+  type ConfigRuleIssue,
+} from '@ai-fastify-template/config';
+import type { FastifyBaseLogger } from 'fastify';
+import { z } from 'zod';
+
+/** Cluster settings, added to the application config in config.ts */
+export const clusterConfigFragment = {
+  WORKERS: z
+    .string({ invalid_type_error: 'WORKERS must be a string' })
+    .regex(
+      /^(auto|[1-9]\d*)$/,
+      'WORKERS must be "auto" or a positive number of worker processes'
+    )
+    .optional()
+    .describe(
+      'Worker processes to fork ("auto": one per CPU); unset runs a single process'
+    ),
+  WORKER_RESTART_DELAY: durationMsSchema(
+    'WORKER_RESTART_DELAY',
+    1_000,
+    'Milliseconds before a crashed worker is restarted; doubles on repeated crashes'
+  ),
+  WORKER_RESTART_MAX_DELAY: durationMsSchema(
+    'WORKER_RESTART_MAX_DELAY',
+    30_000,
+    'Upper bound in milliseconds for the worker restart backoff'
+  ),
+};
+
+export interface ClusterConfig {
+  WORKERS?: string | undefined;
+  LISTEN_FDS?: number | undefined;
+  LISTEN_PID?: number | undefined;
+}
+
+/**
+ * Cross-field rules for the cluster settings: workers cannot share a socket
+ * passed by systemd, since in a forked worker fd 3 is the IPC channel
+ * @param config - The parsed cluster and listen settings
+ * @returns An issue when WORKERS is combined with LISTEN_FDS
+ */
+export function validateClusterConfig(
+  config: ClusterConfig
+): ConfigRuleIssue[] {
+  if (config.WORKERS === undefined || inheritedSocketCount(config) === 0) {
+    return [];
+  }
+  return [
+    {
+      field: 'WORKERS',
+      message:
+        'WORKERS cannot be combined with LISTEN_FDS; run a single process under socket activation',
+    },
+  ];
+}
+
+// Time the primary gives workers beyond their own SHUTDOWN_TIMEOUT before
+// killing them
+const SHUTDOWN_GRACE_MS = 5_000;
+
+/** The parts of a `cluster` worker the supervisor relies on */
+export interface SupervisedWorker {
+  readonly id: number;
+  // Signals go to the process directly: `worker.kill()` would disconnect the
+  // worker first and bypass its graceful shutdown
+  readonly process: { kill(signal?: NodeJS.Signals): boolean };
+  once(event: 'listening', listener: () => void): unknown;
+  once(
+    event: 'exit',
+    listener: (code: number | null, signal: string | null) => void
+  ): unknown;
+}
+
+export interface ClusterSupervisorOptions {
+  /** Number of workers to keep running */
+  workers: number;
+  /** First restart delay after a crash (WORKER_RESTART_DELAY) */
+  restartDelay: number;
+  /** Restart delay cap (WORKER_RESTART_MAX_DELAY) */
+  maxRestartDelay: number;
+  /** The workers' SHUTDOWN_TIMEOUT */
+  shutdownTimeout: number;
+  /** Starts a worker, e.g. `() => cluster.fork()` */
+  fork: () => SupervisedWorker;
+  log: Pick<FastifyBaseLogger, 'info' | 'warn' | 'error'>;
+}
+
+export interface ClusterSupervisor {
+  /** Forks the configured number of workers */
+  start(): void;
+  /**
+   * Replaces the workers one at a time; each is stopped only after its
+   * replacement is listening, so capacity never drops
+   */
+  rollingRestart(): Promise<void>;
+  /**
+   * Stops restarting workers and asks them to shut down gracefully. Workers
+   * still running after their SHUTDOWN_TIMEOUT plus a grace period are killed.
+   */
+  shutdown(signal: NodeJS.Signals): Promise<'completed' | 'timed-out'>;
+  /** Sends a signal to every running worker, e.g. SIGHUP to reload */
+  forward(signal: NodeJS.Signals): void;
+  /** Number of running workers */
+  readonly size: number;
+}
+
+/**
+ * Resolves the WORKERS setting to a worker count
+ * @param workers - `auto`, a number, or undefined for single-process mode
+ * @returns The number of workers, or undefined to run without a cluster
+ */
+export function resolveWorkerCount(
+  workers: string | undefined
+): number | undefined {
+  if (workers === undefined) return undefined;
+  return workers === 'auto' ? availableParallelism() : Number(workers);
+}
+
+/**
+ * Creates the primary-process supervisor for cluster mode
+ * @param options - Worker count, restart backoff, fork function and logger
+ * @returns A supervisor that restarts crashed workers with backoff
+ */
+export function createClusterSupervisor(
+  options: ClusterSupervisorOptions
+): ClusterSupervisor {
+  const { log } = options;
+  const exits = new Map<SupervisedWorker, Promise<void>>();
+  // Workers that exit on purpose and must not be restarted
+  const retiring = new Set<SupervisedWorker>();
+  // Rolling-restart replacements that have not started listening yet
+  const candidates = new Set<SupervisedWorker>();
+  const restartTimers = new Set<NodeJS.Timeout>();
+  let crashes = 0;
+  let stopping = false;
+  let restarting: Promise<void> | undefined;
+
+  const scheduleRestart = (): void => {
+    const delay = Math.min(
+      options.restartDelay * 2 ** crashes,
+      options.maxRestartDelay
+    );
+    crashes += 1;
+
+    const timer = setTimeout(() => {
+      restartTimers.delete(timer);
+      if (!stopping) spawn();
+    }, delay);
+    restartTimers.add(timer);
+  };
+
+  const spawn = (): SupervisedWorker => {
+    const worker = options.fork();
+    const startedAt = Date.now();
+
+    exits.set(
+      worker,
+      new Promise(resolve => {
+        worker.once('exit', (code, signal) => {
+          exits.delete(worker);
+          resolve();
+          if (
+            retiring.delete(worker) ||
+            candidates.delete(worker) ||
+            stopping
+          ) {
+            return;
+          }
+
+          // A worker that stayed up past the longest backoff was healthy
+          if (Date.now() - startedAt >= options.maxRestartDelay) crashes = 0;
+          log.error(
+            { worker: worker.id, code, signal, attempt: crashes + 1 },
+            'Worker exited unexpectedly; restarting'
+          );
+          scheduleRestart();
+        });
+      })
+    );
+
+    return worker;
+  };
+
+  const replace = async (old: SupervisedWorker): Promise<boolean> => {
+    const next = spawn();
+    candidates.add(next);
+    const listening = await new Promise<boolean>(resolve => {
+      next.once('listening', () => {
+        candidates.delete(next);
+        resolve(true);
+      });
+      void exits.get(next)?.then(() => resolve(false));
+    });
+
+    if (!listening) {
+      log.error(
+        { worker: next.id },
+        'Replacement worker exited before listening; rolling restart aborted'
+      );
+      return false;
+    }
+
+    retiring.add(old);
+    old.process.kill('SIGTERM');
+    await exits.get(old);
+    log.info({ previous: old.id, worker: next.id }, 'Worker replaced');
+    return true;
+  };
+
+  return {
+    start: () => {
+      log.info({ workers: options.workers }, 'Starting cluster workers');
+      for (let i = 0; i < options.workers; i++) spawn();
+    },
+
+    rollingRestart: () => {
+      restarting ??= (async () => {
+        log.info({ workers: exits.size }, 'Rolling restart started');
+        for (const worker of [...exits.keys()]) {
+          if (stopping) return;
+          // Exited meanwhile: the crash restart already replaces it
+          if (!exits.has(worker)) continue;
+          if (!(await replace(worker))) return;
+        }
+        log.info('Rolling restart completed');
+      })().finally(() => {
+        restarting = undefined;
+      });
+      return restarting;
+    },
+
+    shutdown: async signal => {
+      stopping = true;
+      for (const timer of restartTimers) clearTimeout(timer);
+      restartTimers.clear();
+
+      const workers = [...exits.keys()];
+      log.info(
+        { signal, workers: workers.length },
+        'Shutting down cluster workers'
+      );
+      // Always SIGTERM: on Ctrl-C the terminal has already sent the workers
+      // SIGINT, and a second SIGINT would skip their graceful shutdown
+      for (const worker of workers) worker.process.kill('SIGTERM');
+
+      let timer: NodeJS.Timeout | undefined;
+      const status = await Promise.race([
+        Promise.all([...exits.values()]).then(() => 'completed' as const),
+        new Promise<'timed-out'>(resolve => {
+          timer = setTimeout(
+            resolve,
+            options.shutdownTimeout + SHUTDOWN_GRACE_MS,
+            'timed-out'
+          );
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (status === 'timed-out') {
+        const pending = [...exits.keys()];
+        log.error(
+          { workers: pending.map(worker => worker.id) },
+          'Workers did not exit in time; killing them'
+        );
+        for (const worker of pending) worker.process.kill('SIGKILL');
+      }
+
+      return status;
+    },
+
+    forward: signal => {
+      log.info(
+        { signal, workers: exits.size },
+        'Forwarding signal to cluster workers'
+      );
+      for (const worker of exits.keys()) worker.process.kill(signal);
+    },
+
+    get size() {
+      return exits.size;
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import {
+  defineConfig,
+  type LoadConfigOptions,
+  type LoadedConfig,
+} from '@ai-fastify-template/config';
+
+import { clusterConfigFragment, validateClusterConfig } from './cluster.js';
+import { healthConfigFragment } from './plugins/health.js';
+import { mockConfigFragment, validateMockConfig } from './plugins/mock.js';
+import { responseValidationConfigFragment } from './plugins/response-validation.js';
+import { shutdownConfigFragment } from './plugins/shutdown.js';
+import { docsConfigFragment, validateDocsConfig } from './plugins/swagger.js';
+import { tlsConfigFragment, validateTlsConfig } from './plugins/tls.js';
+
+/**
+ * Application configuration schema.
+ *
+ * This is the single definition used by both server.ts (before Fastify is
+ * created) and the env plugin (`fastify.config`). Plugins that need their own
+ * settings export a Zod fragment and add it here with `.extend()`.
+ */
+export const appConfig = defineConfig()
+  .extend(shutdownConfigFragment)
+  .extend(healthConfigFragment)
+  .extend(clusterConfigFragment, { validate: validateClusterConfig })
+  .extend(tlsConfigFragment, { validate: validateTlsConfig })
+  .extend(responseValidationConfigFragment, {
+    reloadable: ['RESPONSE_VALIDATION', 'RESPONSE_VALIDATION_SAMPLE_RATE'],
+  })
+  .extend(docsConfigFragment, { validate: validateDocsConfig })
+  .extend(mockConfigFragment, { validate: validateMockConfig });
+
+/** Header of the generated .env.example (see `pnpm config:example`) */
+export const ENV_EXAMPLE_HEADER = [
+  'Backend API configuration.',
+  'Generated from the config schema by `pnpm config:example`; do not edit by hand.',
+];
+
+export type AppConfig = ReturnType<typeof appConfig.load>['config'];
+
+export type LoadedAppConfig = LoadedConfig<AppConfig>;
+
+/**
+ * Loads and validates the application configuration
+ * @param options - Directory holding the .env files and the overriding env
+ * @returns The validated configuration with the source of every field
+ */
+export function loadAppConfig(options?: LoadConfigOptions): LoadedAppConfig {
+  return appConfig.load(options);
+}
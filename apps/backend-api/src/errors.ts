@@ -0,0 +1,113 @@
+/**
+ * Application error catalog. Every error a client may need to tell apart has a
+ * stable code, an HTTP status and a description; the error handler renders it
+ * as problem details with that code, and routes list the codes they can
+ * return so the generated SDK gets a union it can switch on.
+ *
+ * Shared errors live in this module; errors used by a single feature can be
+ * defined next to its routes. The error handler registers a schema for each
+ * code, at the latest when a route is added.
+ */
+
+/** Base class of every error created by `defineError` */
+export abstract class AppError extends Error {
+  abstract readonly code: string;
+  abstract readonly statusCode: number;
+}
+
+/** A throwable class produced by `defineError` */
+export interface ErrorDefinition<
+  Code extends string = string,
+  Status extends number = number,
+> {
+  new (
+    detail?: string,
+    options?: ErrorOptions
+  ): AppError & { readonly code: Code; readonly statusCode: Status };
+  readonly code: Code;
+  readonly statusCode: Status;
+  readonly description: string;
+}
+
+const catalog = new Map<string, ErrorDefinition>();
+
+/**
+ * Defines a catalogued error
+ * @param code - Stable code clients switch on, e.g. ORDER_NOT_FOUND
+ * @param statusCode - HTTP status of the response (4xx or 5xx)
+ * @param description - What the error means; the default detail
+ * @returns A class to throw from handlers and hooks
+ */
+export function defineError<Code extends string, Status extends number>(
+  code: Code,
+  statusCode: Status,
+  description: string
+): ErrorDefinition<Code, Status> {
+  if (!/^[A-Z][A-Z0-9_]*$/.test(code)) {
+    throw new Error(`Error code ${code} must be UPPER_SNAKE_CASE`);
+  }
+  if (statusCode < 400 || statusCode > 599) {
+    throw new Error(`Error ${code} must use a 4xx or 5xx status`);
+  }
+  if (catalog.has(code)) {
+    throw new Error(`Error code ${code} is already defined`);
+  }
+
+  const definition = class extends AppError {
+    static readonly code = code;
+    static readonly statusCode = statusCode;
+    static readonly description = description;
+    readonly code = code;
+    readonly statusCode = statusCode;
+
+    constructor(detail: string = description, options?: ErrorOptions) {
+      super(detail, options);
+      this.name = code;
+    }
+  };
+
+  catalog.set(code, definition);
+  return definition;
+}
+
+/**
+ * Lists the defined errors
+ * @returns Every error defined so far, in definition order
+ */
+export function errorCatalog(): ErrorDefinition[] {
+  return [...catalog.values()];
+}
+
+// Errors raised by the error handler itself
+
+export const ValidationFailed = defineError(
+  'VALIDATION_FAILED',
+  400,
+  'The request does not match the schema'
+);
+
+export const BrandValidationFailed = defineError(
+  'BRAND_VALIDATION_ERROR',
+  400,
+  'A value is not valid for its branded type'
+);
+
+export const RouteNotFound = defineError(
+  'ROUTE_NOT_FOUND',
+  404,
+  'No route matches the method and URL'
+);
+
+export const InternalError = defineError(
+  'INTERNAL_ERROR',
+  500,
+  'Unexpected server error'
+);
+
+// Errors raised by plugins
+
+export const Unauthorized = defineError(
+  'UNAUTHORIZED',
+  401,
+  'Missing or invalid credentials'
+);
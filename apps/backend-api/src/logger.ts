@@ -0,0 +1,52 @@
+import {
+  getEnvironmentProfile,
+  LOG_REDACT_PATHS,
+  REDACTED,
+  redactUrl,
+} from '@ai-fastify-template/config';
+import type { FastifyRequest, FastifyServerOptions } from 'fastify';
+
+import type { AppConfig } from './config.js';
+
+export type LoggerOptions = Exclude<
+  FastifyServerOptions['logger'],
+  boolean | undefined
+>;
+
+/**
+ * Request serializer matching Fastify's default, with secrets removed from
+ * the URL (embedded credentials and sensitive query parameters)
+ */
+function serializeRequest(request: FastifyRequest): Record<string, unknown> {
+  return {
+    method: request.method,
+    url: redactUrl(request.url),
+    version: request.headers['accept-version'],
+    host: request.host,
+    remoteAddress: request.ip,
+    remotePort: request.socket.remotePort,
+  };
+}
+
+/**
+ * Builds the Fastify logger options for the server.
+ *
+ * Request/response logging goes through the shared redaction rules so
+ * credentials never reach the log output.
+ * @param config - The loaded application configuration
+ * @returns Logger options for `Fastify({ logger })`
+ */
+export function createLoggerOptions(
+  config: Pick<AppConfig, 'APP_ENV' | 'LOG_LEVEL'>
+): LoggerOptions {
+  return {
+    level: config.LOG_LEVEL,
+    redact: { paths: [...LOG_REDACT_PATHS], censor: REDACTED },
+    serializers: { req: serializeRequest },
+    ...(getEnvironmentProfile(config.APP_ENV).prettyLogs && {
+      transport: {
+        target: 'pino-pretty',
+      },
+    }),
+  };
+}
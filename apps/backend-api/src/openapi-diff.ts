@@ -0,0 +1,835 @@
+/**
+ * OpenAPI breaking-change detection for the SDK.
+ *
+ * Compares two OpenAPI documents (typically the committed openapi.json and
+ * the one the application produces) and classifies every difference by the
+ * rules of docs/SDK_VERSIONING_STRATEGY.md:
+ *
+ * - major: removed endpoint, parameter, response or property; new required
+ *   parameter or property; changed type, operationId or security
+ * - minor: new endpoint, optional parameter, response or response field
+ * - patch: descriptions, examples and metadata
+ *
+ * Validation keywords the rules do not cover (formats, bounds, patterns)
+ * count as breaking when they change: the SDK cannot tell a tightened
+ * constraint from a loosened one.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+type Json = Record<string, unknown>;
+type Direction = 'request' | 'response';
+
+export const CHANGE_LEVELS = ['major', 'minor', 'patch'] as const;
+
+export type ChangeLevel = (typeof CHANGE_LEVELS)[number];
+
+export interface SpecChange {
+  level: ChangeLevel;
+  /** What changed: an endpoint, a parameter, a schema property */
+  location: string;
+  message: string;
+}
+
+interface DiffContext {
+  base: Json;
+  head: Json;
+  changes: SpecChange[];
+  // Shared schemas already compared, per direction
+  visited: Set<string>;
+}
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+// Keywords that only document a schema, parameter or operation
+const DOC_KEYWORDS = new Set([
+  'summary',
+  'description',
+  'title',
+  'example',
+  'examples',
+  'deprecated',
+  'externalDocs',
+  'tags',
+]);
+
+// Schema keywords compared by compareSchemas itself
+const STRUCTURAL_KEYWORDS = new Set([
+  '$ref',
+  'type',
+  'enum',
+  'properties',
+  'required',
+  'items',
+  'additionalProperties',
+  'allOf',
+  'oneOf',
+  'anyOf',
+]);
+
+const COMPOSITION_KEYWORDS = ['allOf', 'oneOf', 'anyOf'] as const;
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fields = (value: unknown): Map<string, unknown> =>
+  new Map(isRecord(value) ? Object.entries(value) : []);
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? (value as unknown[]) : [];
+
+// Key-order independent JSON, for equality checks
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, item: unknown) =>
+    isRecord(item)
+      ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : item
+  ) ?? 'undefined';
+
+const same = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+const show = (value: unknown): string =>
+  value === undefined ? 'any' : canonical(value);
+
+function report(
+  ctx: DiffContext,
+  level: ChangeLevel,
+  location: string,
+  message: string
+): void {
+  // An inline schema shares its location with the response or body holding
+  // it, so the same change can be found twice
+  const reported = ctx.changes.some(
+    change =>
+      change.level === level &&
+      change.location === location &&
+      change.message === message
+  );
+  if (!reported) ctx.changes.push({ level, location, message });
+}
+
+/**
+ * Follows local references (`#/components/...`) to their target
+ * @param spec - The document the value belongs to
+ * @param value - A schema, parameter or body, possibly a `$ref`
+ * @returns The target, with the referenced name when there was one
+ */
+function dereference(
+  spec: Json,
+  value: unknown
+): { value: Json; name?: string } {
+  let current = value;
+  let name: string | undefined;
+
+  // Bounded: a reference chain longer than this is a cycle
+  for (let depth = 0; depth < 16; depth++) {
+    const ref = fields(current).get('$ref');
+    if (typeof ref !== 'string' || !ref.startsWith('#/')) break;
+
+    const segments = ref.slice(2).split('/');
+    current = segments.reduce<unknown>(
+      (node, segment) => fields(node).get(segment),
+      spec
+    );
+    name = segments[segments.length - 1];
+  }
+
+  return {
+    value: isRecord(current) ? current : {},
+    ...(name !== undefined && { name }),
+  };
+}
+
+function compareDocs(
+  ctx: DiffContext,
+  base: Map<string, unknown>,
+  head: Map<string, unknown>,
+  location: string
+): void {
+  const changed = [...DOC_KEYWORDS].filter(
+    keyword => !same(base.get(keyword), head.get(keyword))
+  );
+  if (changed.length > 0) {
+    report(ctx, 'patch', location, `changed ${changed.join(', ')}`);
+  }
+}
+
+// A property or parameter whose presence changed: new obligations for
+// clients sending requests, missing data for clients reading responses
+const requiredChangeLevel = (
+  direction: Direction,
+  nowRequired: boolean
+): ChangeLevel =>
+  (direction === 'request') === nowRequired ? 'major' : 'minor';
+
+function compareEnums(
+  ctx: DiffContext,
+  base: unknown,
+  head: unknown,
+  direction: Direction,
+  location: string
+): void {
+  if (base === undefined && head === undefined) return;
+  if (base === undefined || head === undefined) {
+    // Restricting values breaks requests; responses may hold any value
+    const restricted = head !== undefined;
+    report(
+      ctx,
+      restricted === (direction === 'request') ? 'major' : 'minor',
+      location,
+      restricted ? `restricted to ${show(head)}` : 'no longer an enum'
+    );
+    return;
+  }
+
+  const baseValues = new Set(asArray(base).map(canonical));
+  const headValues = new Set(asArray(head).map(canonical));
+  const removed = [...baseValues].filter(value => !headValues.has(value));
+  const added = [...headValues].filter(value => !baseValues.has(value));
+
+  if (removed.length > 0) {
+    report(
+      ctx,
+      direction === 'request' ? 'major' : 'minor',
+      location,
+      `removed enum values ${removed.join(', ')}`
+    );
+  }
+  if (added.length > 0) {
+    // Clients switching over response values do not know the new ones
+    report(
+      ctx,
+      direction === 'response' ? 'major' : 'minor',
+      location,
+      `added enum values ${added.join(', ')}`
+    );
+  }
+}
+
+function compareProperties(
+  ctx: DiffContext,
+  base: Map<string, unknown>,
+  head: Map<string, unknown>,
+  direction: Direction,
+  location: string
+): void {
+  const baseProperties = fields(base.get('properties'));
+  const headProperties = fields(head.get('properties'));
+  const baseRequired = new Set(asArray(base.get('required')));
+  const headRequired = new Set(asArray(head.get('required')));
+
+  for (const [name, schema] of baseProperties) {
+    const path = `${location}.${name}`;
+    if (!headProperties.has(name)) {
+      report(ctx, 'major', path, 'removed property');
+      continue;
+    }
+
+    const nowRequired = headRequired.has(name);
+    if (baseRequired.has(name) !== nowRequired) {
+      report(
+        ctx,
+        requiredChangeLevel(direction, nowRequired),
+        path,
+        nowRequired ? 'became required' : 'became optional'
+      );
+    }
+    compareSchemas(ctx, schema, headProperties.get(name), direction, path);
+  }
+
+  for (const name of headProperties.keys()) {
+    if (baseProperties.has(name)) continue;
+    const required = headRequired.has(name);
+    report(
+      ctx,
+      direction === 'request' && required ? 'major' : 'minor',
+      `${location}.${name}`,
+      required ? 'added required property' : 'added optional property'
+    );
+  }
+}
+
+function compareSchemas(
+  ctx: DiffContext,
+  baseSchema: unknown,
+  headSchema: unknown,
+  direction: Direction,
+  path: string
+): void {
+  const base = dereference(ctx.base, baseSchema);
+  const head = dereference(ctx.head, headSchema);
+
+  // A shared schema is compared once per direction, under its own name
+  const shared = base.name !== undefined && base.name === head.name;
+  const location = shared ? String(base.name) : path;
+  if (shared) {
+    const key = `${direction} ${location}`;
+    if (ctx.visited.has(key)) return;
+    ctx.visited.add(key);
+  }
+
+  const b = fields(base.value);
+  const h = fields(head.value);
+
+  if (!same(b.get('type'), h.get('type'))) {
+    report(
+      ctx,
+      'major',
+      location,
+      `type changed from ${show(b.get('type'))} to ${show(h.get('type'))}`
+    );
+    return;
+  }
+
+  compareEnums(ctx, b.get('enum'), h.get('enum'), direction, location);
+  compareProperties(ctx, b, h, direction, location);
+
+  if (b.has('items') && h.has('items')) {
+    compareSchemas(
+      ctx,
+      b.get('items'),
+      h.get('items'),
+      direction,
+      `${location}[]`
+    );
+  }
+
+  const baseExtra = b.get('additionalProperties');
+  const headExtra = h.get('additionalProperties');
+  if (isRecord(baseExtra) && isRecord(headExtra)) {
+    compareSchemas(ctx, baseExtra, headExtra, direction, `${location}.*`);
+  } else if (!same(baseExtra, headExtra)) {
+    report(ctx, 'major', location, 'changed additionalProperties');
+  }
+
+  for (const keyword of COMPOSITION_KEYWORDS) {
+    const baseParts = asArray(b.get(keyword));
+    const headParts = asArray(h.get(keyword));
+    if (baseParts.length !== headParts.length) {
+      report(ctx, 'major', location, `changed ${keyword}`);
+      continue;
+    }
+    baseParts.forEach((part, index) => {
+      compareSchemas(ctx, part, headParts.at(index), direction, location);
+    });
+  }
+
+  const keywords = new Set([...b.keys(), ...h.keys()]);
+  for (const keyword of keywords) {
+    if (STRUCTURAL_KEYWORDS.has(keyword) || DOC_KEYWORDS.has(keyword)) {
+      continue;
+    }
+    if (!same(b.get(keyword), h.get(keyword))) {
+      report(
+        ctx,
+        'major',
+        location,
+        `${keyword} changed from ${show(b.get(keyword))} to ${show(h.get(keyword))}`
+      );
+    }
+  }
+
+  compareDocs(ctx, b, h, location);
+}
+
+function compareContent(
+  ctx: DiffContext,
+  base: Map<string, unknown>,
+  head: Map<string, unknown>,
+  direction: Direction,
+  location: string
+): void {
+  const baseContent = fields(base.get('content'));
+  const headContent = fields(head.get('content'));
+  const verb = direction === 'request' ? 'accepts' : 'returns';
+
+  for (const [mediaType, media] of baseContent) {
+    if (!headContent.has(mediaType)) {
+      report(ctx, 'major', location, `no longer ${verb} ${mediaType}`);
+      continue;
+    }
+    compareSchemas(
+      ctx,
+      fields(media).get('schema'),
+      fields(headContent.get(mediaType)).get('schema'),
+      direction,
+      location
+    );
+  }
+  for (const mediaType of headContent.keys()) {
+    if (!baseContent.has(mediaType)) {
+      report(ctx, 'minor', location, `${verb} ${mediaType}`);
+    }
+  }
+}
+
+function parameterMap(spec: Json, operation: Map<string, unknown>) {
+  return new Map(
+    asArray(operation.get('parameters')).map(parameter => {
+      const resolved = fields(dereference(spec, parameter).value);
+      return [
+        `${String(resolved.get('in'))} parameter ${String(resolved.get('name'))}`,
+        resolved,
+      ] as const;
+    })
+  );
+}
+
+function compareParameters(
+  ctx: DiffContext,
+  base: Map<string, unknown>,
+  head: Map<string, unknown>,
+  location: string
+): void {
+  const baseParameters = parameterMap(ctx.base, base);
+  const headParameters = parameterMap(ctx.head, head);
+
+  for (const [key, parameter] of baseParameters) {
+    const path = `${location} ${key}`;
+    const headParameter = headParameters.get(key);
+    if (headParameter === undefined) {
+      report(ctx, 'major', path, 'removed parameter');
+      continue;
+    }
+
+    const nowRequired = headParameter.get('required') === true;
+    if ((parameter.get('required') === true) !== nowRequired) {
+      report(
+        ctx,
+        requiredChangeLevel('request', nowRequired),
+        path,
+        nowRequired ? 'became required' : 'became optional'
+      );
+    }
+    compareSchemas(
+      ctx,
+      parameter.get('schema'),
+      headParameter.get('schema'),
+      'request',
+      path
+    );
+    compareDocs(ctx, parameter, headParameter, path);
+  }
+
+  for (const [key, parameter] of headParameters) {
+    if (baseParameters.has(key)) continue;
+    const required = parameter.get('required') === true;
+    report(
+      ctx,
+      required ? 'major' : 'minor',
+      `${location} ${key}`,
+      required ? 'added required parameter' : 'added optional parameter'
+    );
+  }
+}
+
+function compareRequestBodies(
+  ctx: DiffContext,
+  base: Map<string, unknown>,
+  head: Map<string, unknown>,
+  location: string
+): void {
+  const path = `${location} request body`;
+  const baseBody = base.get('requestBody');
+  const headBody = head.get('requestBody');
+
+  if (baseBody === undefined && headBody === undefined) return;
+  if (headBody === undefined) {
+    report(ctx, 'major', path, 'removed request body');
+    return;
+  }
+
+  const h = fields(dereference(ctx.head, headBody).value);
+  const nowRequired = h.get('required') === true;
+  if (baseBody === undefined) {
+    report(
+      ctx,
+      nowRequired ? 'major' : 'minor',
+      path,
+      nowRequired ? 'added required request body' : 'added request body'
+    );
+    return;
+  }
+
+  const b = fields(dereference(ctx.base, baseBody).value);
+  if ((b.get('required') === true) !== nowRequired) {
+    report(
+      ctx,
+      requiredChangeLevel('request', nowRequired),
+      path,
+      nowRequired ? 'became required' : 'became optional'
+    );
+  }
+  compareContent(ctx, b, h, 'request', path);
+  compareDocs(ctx, b, h, path);
+}
+
+function compareResponses(
+  ctx: DiffContext,
+  base: Map<string, unknown>,
+  head: Map<string, unknown>,
+  location: string
+): void {
+  const baseResponses = fields(base.get('responses'));
+  const headResponses = fields(head.get('responses'));
+
+  for (const [status, response] of baseResponses) {
+    const path = `${location} response ${status}`;
+    if (!headResponses.has(status)) {
+      report(ctx, 'major', path, 'removed response');
+      continue;
+    }
+    const b = fields(dereference(ctx.base, response).value);
+    const h = fields(dereference(ctx.head, headResponses.get(status)).value);
+    compareContent(ctx, b, h, 'response', path);
+    compareDocs(ctx, b, h, path);
+  }
+  for (const status of headResponses.keys()) {
+    if (!baseResponses.has(status)) {
+      report(ctx, 'minor', `${location} response ${status}`, 'added response');
+    }
+  }
+}
+
+function compareOperations(ctx: DiffContext): void {
+  const basePaths = fields(ctx.base['paths']);
+  const headPaths = fields(ctx.head['paths']);
+  const paths = new Set([...basePaths.keys(), ...headPaths.keys()]);
+
+  for (const path of paths) {
+    const baseItem = fields(basePaths.get(path));
+    const headItem = fields(headPaths.get(path));
+
+    for (const method of HTTP_METHODS) {
+      const location = `${method.toUpperCase()} ${path}`;
+      if (!baseItem.has(method) && !headItem.has(method)) continue;
+      if (!headItem.has(method)) {
+        report(ctx, 'major', location, 'removed endpoint');
+        continue;
+      }
+      if (!baseItem.has(method)) {
+        report(ctx, 'minor', location, 'added endpoint');
+        continue;
+      }
+
+      const base = fields(baseItem.get(method));
+      const head = fields(headItem.get(method));
+
+      // The SDK names its methods after operation IDs
+      if (!same(base.get('operationId'), head.get('operationId'))) {
+        report(
+          ctx,
+          'major',
+          location,
+          `operationId changed from ${show(base.get('operationId'))} to ${show(head.get('operationId'))}`
+        );
+      }
+      if (
+        !same(
+          base.get('security') ?? ctx.base['security'],
+          head.get('security') ?? ctx.head['security']
+        )
+      ) {
+        report(ctx, 'major', location, 'changed security requirements');
+      }
+
+      compareParameters(ctx, base, head, location);
+      compareRequestBodies(ctx, base, head, location);
+      compareResponses(ctx, base, head, location);
+      compareDocs(ctx, base, head, location);
+    }
+  }
+}
+
+function compareComponents(ctx: DiffContext): void {
+  const base = fields(ctx.base['components']);
+  const head = fields(ctx.head['components']);
+
+  // The SDK generates a named type per schema component
+  const baseSchemas = fields(base.get('schemas'));
+  const headSchemas = fields(head.get('schemas'));
+  for (const name of baseSchemas.keys()) {
+    if (!headSchemas.has(name)) {
+      report(ctx, 'major', name, 'removed schema');
+    }
+  }
+  for (const name of headSchemas.keys()) {
+    if (!baseSchemas.has(name)) {
+      report(ctx, 'minor', name, 'added schema');
+    }
+  }
+
+  if (!same(base.get('securitySchemes'), head.get('securitySchemes'))) {
+    report(ctx, 'major', 'components', 'changed security schemes');
+  }
+}
+
+/**
+ * Lists the differences between two OpenAPI documents
+ * @param base - The published document (the committed openapi.json)
+ * @param head - The document the application produces now
+ * @returns Every change with the version bump it requires
+ */
+export function diffSpecs(base: Json, head: Json): SpecChange[] {
+  const ctx: DiffContext = { base, head, changes: [], visited: new Set() };
+
+  for (const key of ['info', 'servers', 'tags', 'externalDocs']) {
+    if (!same(fields(base).get(key), fields(head).get(key))) {
+      report(ctx, 'patch', key, 'changed');
+    }
+  }
+  compareComponents(ctx);
+  compareOperations(ctx);
+
+  if (ctx.changes.length === 0 && !same(base, head)) {
+    report(ctx, 'patch', 'document', 'changed');
+  }
+  return ctx.changes;
+}
+
+/**
+ * The bump a set of changes requires
+ * @param changes - Changes found by diffSpecs
+ * @returns The highest level among them, or undefined when there are none
+ */
+export function requiredBump(
+  changes: readonly SpecChange[]
+): ChangeLevel | undefined {
+  return CHANGE_LEVELS.find(level =>
+    changes.some(change => change.level === level)
+  );
+}
+
+function parseVersion(version: string): [number, number, number] {
+  const match = /^(\d+)\.(\d+)\.(\d+)/.exec(version);
+  if (!match) throw new Error(`Invalid version: ${version}`);
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/**
+ * Applies a semantic version bump; pre-release suffixes are dropped
+ * @param version - The current version, e.g. `1.4.2`
+ * @param level - The bump to apply
+ * @returns The next version, e.g. `2.0.0` for a major bump
+ */
+export function bumpVersion(version: string, level: ChangeLevel): string {
+  const [major, minor, patch] = parseVersion(version);
+  switch (level) {
+    case 'major':
+      return `${String(major + 1)}.0.0`;
+    case 'minor':
+      return `${String(major)}.${String(minor + 1)}.0`;
+    case 'patch':
+      return `${String(major)}.${String(minor)}.${String(patch + 1)}`;
+  }
+}
+
+/**
+ * Orders two versions by their major, minor and patch numbers
+ * @param a - A version
+ * @param b - Another version
+ * @returns A negative number, zero or a positive number, like a sort comparator
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  const index = [0, 1, 2].find(i => left.at(i) !== right.at(i));
+  return index === undefined
+    ? 0
+    : (left.at(index) ?? 0) - (right.at(index) ?? 0);
+}
+
+/**
+ * Finds the latest released version in a Keep a Changelog file
+ * @param changelog - The CHANGELOG.md content
+ * @returns The version of the first `## [x.y.z]` heading, if any
+ */
+export function latestReleasedVersion(changelog: string): string | undefined {
+  for (const line of changelog.split('\n')) {
+    const match = /^## \[(\d+\.\d+\.\d+[^\]]*)\]/.exec(line);
+    if (match?.[1] !== undefined) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Formats the changes for people
+ * @param changes - Changes found by diffSpecs
+ * @returns One line per change, most severe first
+ */
+export function formatSpecChanges(changes: readonly SpecChange[]): string[] {
+  if (changes.length === 0) return ['No OpenAPI changes'];
+
+  const counts = CHANGE_LEVELS.map(
+    level =>
+      `${String(changes.filter(change => change.level === level).length)} ${level}`
+  );
+  return [
+    `OpenAPI changes: ${counts.join(', ')}`,
+    ...CHANGE_LEVELS.flatMap(level =>
+      changes
+        .filter(change => change.level === level)
+        .map(
+          change =>
+            `  ${level.padEnd(5)}  ${change.location}: ${change.message}`
+        )
+    ),
+  ];
+}
+
+export const OPENAPI_DIFF_CLI_USAGE = `Usage: openapi-diff [options]
+
+Compares the committed OpenAPI document with the one the application
+produces and proposes the next SDK version.
+
+Options:
+  --base <file>        Published document (default: openapi.json)
+  --sdk <dir>          SDK package (default: ../../packages/sdk)
+  --released <version> Version the published document shipped with
+                       (default: latest release in the SDK CHANGELOG.md)
+  --write              Set the SDK package.json version to the proposal
+  --json               Output JSON
+  --help               Show this message
+
+Exits with 1 when a breaking change lacks a major SDK version bump.`;
+
+export interface OpenApiDiffCliOptions {
+  /** Base directory for the paths (defaults to process.cwd()) */
+  cwd?: string;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+const readJson = (path: string): Json => {
+  const value: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (!isRecord(value)) throw new Error(`${path} is not a JSON object`);
+  return value;
+};
+
+/**
+ * Runs the OpenAPI diff CLI
+ * @param current - The OpenAPI document the application produces
+ * @param argv - Arguments after the executable, e.g. `process.argv.slice(2)`
+ * @param options - I/O and directory overrides
+ * @returns The process exit code: 0 on success, 1 when the SDK version is
+ * insufficient or a file is unreadable, 2 on bad usage
+ */
+export function runOpenApiDiffCli(
+  current: Json,
+  argv: string[],
+  options: OpenApiDiffCliOptions = {}
+): number {
+  const stdout = options.stdout ?? (text => process.stdout.write(`${text}\n`));
+  const stderr = options.stderr ?? (text => process.stderr.write(`${text}\n`));
+  const cwd = options.cwd ?? process.cwd();
+
+  let values: ReturnType<typeof parseCliArgs>['values'];
+  try {
+    ({ values } = parseCliArgs(argv));
+  } catch (error) {
+    stderr(error instanceof Error ? error.message : String(error));
+    stderr(OPENAPI_DIFF_CLI_USAGE);
+    return 2;
+  }
+  if (values.help === true) {
+    stdout(OPENAPI_DIFF_CLI_USAGE);
+    return 0;
+  }
+
+  const basePath = resolve(cwd, values.base ?? 'openapi.json');
+  const sdkDir = resolve(cwd, values.sdk ?? '../../packages/sdk');
+  const packagePath = join(sdkDir, 'package.json');
+  const changelogPath = join(sdkDir, 'CHANGELOG.md');
+
+  let base: Json;
+  let sdkPackage: Json;
+  try {
+    base = readJson(basePath);
+    sdkPackage = readJson(packagePath);
+  } catch (error) {
+    stderr(`✖ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+
+  const version = String(sdkPackage['version']);
+  const released =
+    values.released ??
+    (existsSync(changelogPath)
+      ? latestReleasedVersion(readFileSync(changelogPath, 'utf8'))
+      : undefined) ??
+    version;
+
+  const changes = diffSpecs(base, current);
+  const bump = requiredBump(changes);
+  const proposed = bump === undefined ? released : bumpVersion(released, bump);
+
+  let planned = version;
+  if (values.write === true && compareVersions(planned, proposed) < 0) {
+    writeFileSync(
+      packagePath,
+      `${JSON.stringify({ ...sdkPackage, version: proposed }, null, 2)}\n`
+    );
+    planned = proposed;
+  }
+
+  // Breaking changes need a new major version over the published one
+  const missingMajor =
+    bump === 'major' && parseVersion(planned)[0] <= parseVersion(released)[0];
+
+  if (values.json === true) {
+    stdout(
+      JSON.stringify(
+        { changes, bump: bump ?? null, released, version: planned, proposed },
+        null,
+        2
+      )
+    );
+  } else {
+    for (const line of formatSpecChanges(changes)) stdout(line);
+    if (bump !== undefined) {
+      stdout(
+        `Required SDK bump: ${bump} (released ${released}, proposed ${proposed})`
+      );
+    }
+    if (planned !== version) {
+      stdout(`✔ Set the SDK version to ${planned}`);
+    } else if (!missingMajor && compareVersions(planned, proposed) < 0) {
+      stdout(`Set the SDK version to ${proposed} (currently ${planned})`);
+    }
+  }
+
+  if (missingMajor) {
+    stderr(
+      `✖ Breaking changes need a major SDK version bump: set ${packagePath} to ${proposed} or run with --write`
+    );
+    return 1;
+  }
+  return 0;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    options: {
+      base: { type: 'string' },
+      sdk: { type: 'string' },
+      released: { type: 'string' },
+      write: { type: 'boolean' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+}
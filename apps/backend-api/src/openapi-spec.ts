@@ -0,0 +1,287 @@
+/**
+ * OpenAPI document output.
+ *
+ * Writes the document the application produces as openapi.json (and
+ * optionally openapi.yaml) in a stable form, or checks that the committed
+ * files are up to date. Paths, operations, responses and components are
+ * sorted: their registration order depends on the order plugins and routes
+ * are loaded from disk.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+type Json = Record<string, unknown>;
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+
+// YAML 1.1 reads these as booleans or null when unquoted
+const YAML_RESERVED = new Set([
+  'true',
+  'false',
+  'yes',
+  'no',
+  'on',
+  'off',
+  'y',
+  'n',
+  'null',
+  '~',
+]);
+
+// Strings that read back as the same string without quotes
+const YAML_PLAIN = /^[A-Za-z_$/][\w$/.{}()' -]*$/;
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? (value as unknown[]) : [];
+
+// Code unit order: the same on every machine, unlike localeCompare
+const byCodeUnits = (a: string, b: string): number =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+const sortKeys = (value: unknown): unknown =>
+  isRecord(value)
+    ? Object.fromEntries(
+        Object.entries(value).sort(([a], [b]) => byCodeUnits(a, b))
+      )
+    : value;
+
+// HTTP methods in their usual order, then path-level fields
+const methodOrder = (key: string): number => {
+  const index = HTTP_METHODS.indexOf(key);
+  return index === -1 ? HTTP_METHODS.length : index;
+};
+
+const sortPathItem = (item: unknown): unknown =>
+  isRecord(item)
+    ? Object.fromEntries(
+        Object.entries(item)
+          .sort(
+            ([a], [b]) => methodOrder(a) - methodOrder(b) || byCodeUnits(a, b)
+          )
+          .map(([key, operation]) => [
+            key,
+            isRecord(operation) && isRecord(operation['responses'])
+              ? { ...operation, responses: sortKeys(operation['responses']) }
+              : operation,
+          ])
+      )
+    : item;
+
+/**
+ * Puts an OpenAPI document in a stable order: paths, responses and each
+ * components section sorted by key, operations by HTTP method. Everything
+ * else keeps the order the document was built in.
+ * @param spec - The document, as plain JSON
+ * @returns A sorted copy
+ */
+export function sortSpec(spec: Json): Json {
+  const { paths, components } = spec;
+
+  return {
+    ...spec,
+    ...(isRecord(paths) && {
+      paths: Object.fromEntries(
+        Object.entries(paths)
+          .sort(([a], [b]) => byCodeUnits(a, b))
+          .map(([path, item]) => [path, sortPathItem(item)])
+      ),
+    }),
+    ...(isRecord(components) && {
+      components: Object.fromEntries(
+        Object.entries(components).map(([section, entries]) => [
+          section,
+          sortKeys(entries),
+        ])
+      ),
+    }),
+  };
+}
+
+const isCollection = (value: unknown): boolean =>
+  asArray(value).length > 0 ||
+  (isRecord(value) && Object.keys(value).length > 0);
+
+function yamlScalar(value: unknown): string {
+  if (typeof value === 'string') {
+    return YAML_PLAIN.test(value) &&
+      !value.endsWith(' ') &&
+      !YAML_RESERVED.has(value.toLowerCase())
+      ? value
+      : // JSON strings are valid double-quoted YAML scalars
+        JSON.stringify(value);
+  }
+  if (Array.isArray(value)) return '[]';
+  if (isRecord(value)) return '{}';
+  return typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : 'null';
+}
+
+function yamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return asArray(value).flatMap(item => {
+      if (!isCollection(item)) return [`${indent}- ${yamlScalar(item)}`];
+      // The item's first line goes on the dash line
+      const [first = '', ...rest] = yamlLines(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(isRecord(value) ? value : {}).flatMap(([key, item]) =>
+    isCollection(item)
+      ? [`${indent}${yamlScalar(key)}:`, ...yamlLines(item, `${indent}  `)]
+      : [`${indent}${yamlScalar(key)}: ${yamlScalar(item)}`]
+  );
+}
+
+/**
+ * Renders JSON data as block-style YAML
+ * @param value - An object or array of JSON values
+ * @returns The YAML document, ending with a newline
+ */
+export function toYaml(value: unknown): string {
+  return `${yamlLines(value, '').join('\n')}\n`;
+}
+
+/**
+ * Renders a document the way it is committed
+ * @param spec - The OpenAPI document
+ * @param format - Output format
+ * @returns The file content, ending with a newline
+ */
+export function renderSpec(spec: Json, format: 'json' | 'yaml'): string {
+  const sorted = sortSpec(spec);
+  return format === 'json'
+    ? `${JSON.stringify(sorted, null, 2)}\n`
+    : toYaml(sorted);
+}
+
+const countOperations = (spec: Json): number =>
+  Object.values(isRecord(spec['paths']) ? spec['paths'] : {}).reduce<number>(
+    (count, item) =>
+      count +
+      Object.keys(isRecord(item) ? item : {}).filter(key =>
+        HTTP_METHODS.includes(key)
+      ).length,
+    0
+  );
+
+export const OPENAPI_CLI_USAGE = `Usage: generate-openapi [options]
+
+Writes the application's OpenAPI document, or checks the committed one.
+
+Options:
+  --output <file>  JSON output (default: openapi.json)
+  --yaml           Also write the document as YAML, next to the JSON
+  --check          Fail if the output files are missing or out of date
+  --env <name>     NODE_ENV to build the application with (default: development)
+  --help           Show this message`;
+
+export interface OpenApiCliOptions {
+  /** Base directory for --output (defaults to process.cwd()) */
+  cwd?: string;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+/**
+ * Runs the OpenAPI generator CLI
+ * @param argv - Arguments after the executable, e.g. `process.argv.slice(2)`
+ * @param buildSpec - Builds the application for a NODE_ENV and returns its
+ * OpenAPI document
+ * @param options - I/O and directory overrides
+ * @returns The process exit code: 0 on success, 1 when a file is out of
+ * date, 2 on bad usage
+ */
+export async function runOpenApiCli(
+  argv: string[],
+  buildSpec: (nodeEnv: string) => Promise<Json>,
+  options: OpenApiCliOptions = {}
+): Promise<number> {
+  const stdout = options.stdout ?? (text => process.stdout.write(`${text}\n`));
+  const stderr = options.stderr ?? (text => process.stderr.write(`${text}\n`));
+  const cwd = options.cwd ?? process.cwd();
+
+  let values: ReturnType<typeof parseCliArgs>['values'];
+  try {
+    ({ values } = parseCliArgs(argv));
+  } catch (error) {
+    stderr(error instanceof Error ? error.message : String(error));
+    stderr(OPENAPI_CLI_USAGE);
+    return 2;
+  }
+  if (values.help === true) {
+    stdout(OPENAPI_CLI_USAGE);
+    return 0;
+  }
+
+  const output = values.output ?? 'openapi.json';
+  if (!output.endsWith('.json')) {
+    stderr('--output must be a .json file');
+    return 2;
+  }
+
+  const spec = await buildSpec(values.env ?? 'development');
+  const files = [
+    { path: output, content: renderSpec(spec, 'json') },
+    ...(values.yaml === true
+      ? [
+          {
+            path: output.replace(/\.json$/, '.yaml'),
+            content: renderSpec(spec, 'yaml'),
+          },
+        ]
+      : []),
+  ];
+
+  if (values.check === true) {
+    const stale = files.filter(({ path, content }) => {
+      const file = resolve(cwd, path);
+      return !existsSync(file) || readFileSync(file, 'utf8') !== content;
+    });
+    for (const { path } of stale) {
+      stderr(
+        `✖ ${basename(path)} is out of date; regenerate it with pnpm openapi:generate`
+      );
+    }
+    if (stale.length > 0) return 1;
+    stdout(
+      `✔ ${files.map(({ path }) => basename(path)).join(', ')} up to date`
+    );
+    return 0;
+  }
+
+  for (const { path, content } of files) {
+    writeFileSync(resolve(cwd, path), content);
+    stdout(`✔ Wrote ${path}`);
+  }
+  stdout(`${String(countOperations(spec))} operations documented`);
+  return 0;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    options: {
+      output: { type: 'string' },
+      yaml: { type: 'boolean' },
+      check: { type: 'boolean' },
+      env: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+}
@@ -1,110 +1,229 @@
+import {
+  ConfigValidationError,
+  DEFAULT_SOURCE,
+  diffConfig,
+  getEnvironmentProfile,
+  redactObject,
+  type AppEnvironment,
+  type ConfigChange,
+  type ConfigIssue,
+  type EnvSources,
+  type EnvironmentProfile,
+} from '@ai-fastify-template/config';
 import fp from 'fastify-plugin';
-import { z } from 'zod';
-
-const EnvSchema = z.object({
-  NODE_ENV: z
-    .enum(['development', 'production', 'test'], {
-      errorMap: () => ({
-        message: 'NODE_ENV must be one of: development, production, test',
-      }),
-    })
-    .default('development'),
-
-  PORT: z
-    .string({
-      required_error: 'PORT environment variable is required',
-      invalid_type_error: 'PORT must be a string',
-    })
-    .regex(/^\d+$/, 'PORT must contain only numeric characters')
-    .transform(Number)
-    .refine(n => n > 0 && n < 65536, 'PORT must be between 1-65535')
-    .default('3000'),
-
-  HOST: z
-    .string({
-      invalid_type_error: 'HOST must be a string',
-    })
-    .min(1, 'HOST cannot be empty')
-    .default('localhost'),
-
-  LOG_LEVEL: z
-    .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace'], {
-      errorMap: () => ({
-        message:
-          'LOG_LEVEL must be one of: fatal, error, warn, info, debug, trace',
-      }),
-    })
-    .default('info'),
-});
-
-export type Env = z.infer<typeof EnvSchema>;
-
-// List of sensitive environment variable patterns to redact from logs
-const SENSITIVE_PATTERNS = [
-  /password/i,
-  /secret/i,
-  /key/i,
-  /token/i,
-  /auth/i,
-  /credential/i,
-  /database_url/i,
-  /connection_string/i,
-];
-
-function createSafeConfig(config: Env): Record<string, unknown> {
-  const safeConfig: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(config)) {
-    const isSensitive = SENSITIVE_PATTERNS.some(pattern => pattern.test(key));
-    // eslint-disable-next-line security/detect-object-injection
-    safeConfig[key] = isSensitive ? '[REDACTED]' : value;
-  }
 
-  return safeConfig;
+import {
+  appConfig,
+  loadAppConfig,
+  type AppConfig,
+  type LoadedAppConfig,
+} from '../config.js';
+
+export type Env = AppConfig;
+
+/** The deployment environment (APP_ENV) and its profile */
+export interface EnvironmentInfo extends EnvironmentProfile {
+  name: AppEnvironment;
+}
+
+export interface EnvPluginOptions {
+  /** Directory holding the .env files (defaults to process.cwd()) */
+  envDir?: string;
+  /** Configuration already loaded by the caller (e.g. server.ts) */
+  config?: LoadedAppConfig;
+  /** Signal that triggers a live reload (server.ts uses SIGHUP) */
+  reloadSignal?: NodeJS.Signals;
+}
+
+export type ConfigChangeListener = (
+  changes: ConfigChange[],
+  config: Env
+) => void | Promise<void>;
+
+export interface ConfigReloadResult {
+  /** `rejected` means validation failed and nothing was applied */
+  status: 'applied' | 'unchanged' | 'rejected';
+  /** Reloadable fields that were applied */
+  applied: ConfigChange[];
+  /** Changed fields that are not reloadable and need a restart */
+  ignored: string[];
+  issues: ConfigIssue[];
+}
+
+// Redacts by key name, by value (URL credentials, JWTs, high-entropy tokens)
+// and always for values read from `<NAME>_FILE` secret files
+export function createSafeConfig(
+  config: Record<string, unknown>,
+  secretFields: readonly string[] = []
+): Record<string, unknown> {
+  return redactObject(config, { alwaysRedact: secretFields });
+}
+
+function createSafeDiff(
+  changes: ConfigChange[],
+  secretFields: readonly string[]
+): ConfigChange[] {
+  return changes.map(({ field, previous, next }) => {
+    const safe = (value: unknown): unknown =>
+      Object.values(createSafeConfig({ [field]: value }, secretFields))[0];
+    return { field, previous: safe(previous), next: safe(next) };
+  });
 }
 
 declare module 'fastify' {
   interface FastifyInstance {
-    config?: Env;
+    config: Env;
+    configSources: EnvSources;
+    /** Deployment environment; branch on its profile, not on NODE_ENV */
+    environment: Readonly<EnvironmentInfo>;
+    /** Re-reads and re-validates configuration, applying reloadable fields */
+    reloadConfig(): Promise<ConfigReloadResult>;
+    /** Subscribes to applied configuration changes */
+    onConfigChange(listener: ConfigChangeListener): void;
   }
 }
 
-export default fp(
-  fastify => {
+export default fp<EnvPluginOptions>(
+  async (fastify, opts) => {
+    const load = (): LoadedAppConfig =>
+      loadAppConfig({
+        env: process.env,
+        ...(opts.envDir !== undefined && { cwd: opts.envDir }),
+      });
+
+    let secretFields: readonly string[] = [];
+
     try {
-      const config = EnvSchema.parse(process.env);
-      fastify.decorate('config', config);
+      const loaded = opts.config ?? load();
+      secretFields = loaded.secretFields;
+
+      fastify.decorate('config', loaded.config);
+      fastify.decorate('configSources', loaded.sources);
+      fastify.decorate('environment', {
+        name: loaded.config.APP_ENV,
+        ...getEnvironmentProfile(loaded.config.APP_ENV),
+      });
 
       // Log safe config (sensitive fields redacted)
-      const safeConfig = createSafeConfig(config);
+      const safeConfig = createSafeConfig(loaded.config, secretFields);
       fastify.log.info(
-        { config: safeConfig },
+        { config: safeConfig, sources: loaded.sources, files: loaded.files },
         'Environment configuration loaded'
       );
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        const formattedErrors = error.errors.map(err => ({
-          field: err.path.join('.'),
-          message: err.message,
-          code: err.code,
-          received: 'received' in err ? err.received : undefined,
-        }));
-
+      if (error instanceof ConfigValidationError) {
         fastify.log.error(
           {
-            validationErrors: formattedErrors,
+            validationErrors: error.issues,
           },
           'Environment validation failed'
         );
 
-        throw new Error(
-          `Environment validation failed: ${formattedErrors.map(e => `${e.field}: ${e.message}`).join(', ')}`
-        );
+        throw error;
       }
 
       fastify.log.error({ error }, 'Invalid environment configuration');
       throw error;
     }
+
+    const listeners: ConfigChangeListener[] = [];
+
+    fastify.decorate('onConfigChange', (listener: ConfigChangeListener) => {
+      listeners.push(listener);
+    });
+
+    const reloadConfig = async (): Promise<ConfigReloadResult> => {
+      let next: LoadedAppConfig;
+      try {
+        next = load();
+      } catch (error) {
+        if (error instanceof ConfigValidationError) {
+          fastify.log.error(
+            { validationErrors: error.issues },
+            'Configuration reload rejected'
+          );
+          return {
+            status: 'rejected',
+            applied: [],
+            ignored: [],
+            issues: error.issues,
+          };
+        }
+        throw error;
+      }
+
+      const changes = diffConfig(fastify.config, next.config);
+      const applied = changes.filter(c =>
+        appConfig.reloadable.includes(c.field)
+      );
+      const ignored = changes
+        .filter(c => !appConfig.reloadable.includes(c.field))
+        .map(c => c.field);
+
+      if (ignored.length > 0) {
+        fastify.log.warn(
+          { fields: ignored },
+          'Configuration changes require a restart and were not applied'
+        );
+      }
+
+      if (applied.length === 0) {
+        fastify.log.info('Configuration reloaded without changes');
+        return { status: 'unchanged', applied, ignored, issues: [] };
+      }
+
+      const updates: Record<string, unknown> = {};
+      for (const { field, next: value } of applied) {
+        // eslint-disable-next-line security/detect-object-injection
+        updates[field] = value;
+        // eslint-disable-next-line security/detect-object-injection
+        fastify.configSources[field] = next.sources[field] ?? DEFAULT_SOURCE;
+      }
+      secretFields = [
+        ...secretFields.filter(f => !(f in updates)),
+        ...next.secretFields.filter(f => f in updates),
+      ];
+      Object.assign(fastify.config, updates);
+
+      fastify.log.info(
+        { changes: createSafeDiff(applied, secretFields) },
+        'Configuration reloaded'
+      );
+
+      for (const listener of listeners) {
+        try {
+          await listener(applied, fastify.config);
+        } catch (error) {
+          fastify.log.error({ error }, 'Configuration change listener failed');
+        }
+      }
+
+      return { status: 'applied', applied, ignored, issues: [] };
+    };
+
+    fastify.decorate('reloadConfig', reloadConfig);
+
+    // The logger level follows LOG_LEVEL immediately
+    fastify.onConfigChange((changes, config) => {
+      if (changes.some(c => c.field === 'LOG_LEVEL')) {
+        fastify.log.level = config.LOG_LEVEL;
+      }
+    });
+
+    const { reloadSignal } = opts;
+    if (reloadSignal !== undefined) {
+      const onSignal = (): void => {
+        fastify.log.info({ signal: reloadSignal }, 'Reloading configuration');
+        reloadConfig().catch((error: unknown) => {
+          fastify.log.error({ error }, 'Configuration reload failed');
+        });
+      };
+
+      process.on(reloadSignal, onSignal);
+      fastify.addHook('onClose', async () => {
+        process.removeListener(reloadSignal, onSignal);
+      });
+    }
   },
   {
     name: 'env-plugin',
@@ -0,0 +1,380 @@
+import { STATUS_CODES } from 'node:http';
+
+import { BrandValidationError } from '@ai-fastify-template/types/brand';
+import type { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { ZodError, type ZodIssue } from 'zod';
+
+import {
+  AppError,
+  BrandValidationFailed,
+  errorCatalog,
+  InternalError,
+  RouteNotFound,
+  ValidationFailed,
+  type ErrorDefinition,
+} from '../errors.js';
+
+/** Media type of every error response (RFC 7807) */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/** `$id` of the shared schema; routes reference it as `ProblemDetails#` */
+export const PROBLEM_SCHEMA_ID = 'ProblemDetails';
+
+/** A single failed validation rule; never includes the rejected value */
+export interface Violation {
+  /** Dotted path, prefixed with body, querystring, params or headers */
+  path: string;
+  code: string;
+  message: string;
+}
+
+/** Body of every error response */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  /** Catalog code (see src/errors.ts); absent for uncatalogued errors */
+  code?: string;
+  detail?: string;
+  instance: string;
+  requestId: string;
+  /** Validation errors (schema validation and ZodError) */
+  violations?: Violation[];
+  /** Branded type that rejected a value (BrandValidationError) */
+  brandType?: string;
+}
+
+/** Registered once with `addSchema`; OpenAPI lists it as a component */
+export const ProblemDetailsSchema = {
+  $id: PROBLEM_SCHEMA_ID,
+  type: 'object',
+  description: 'RFC 7807 problem details',
+  properties: {
+    type: {
+      type: 'string',
+      description: 'URI identifying the problem type',
+      example: 'about:blank',
+    },
+    title: {
+      type: 'string',
+      description: 'Short summary of the problem type',
+      example: 'Bad Request',
+    },
+    status: {
+      type: 'integer',
+      description: 'HTTP status code',
+      example: 400,
+    },
+    code: {
+      type: 'string',
+      description: 'Stable error code to switch on',
+      example: 'VALIDATION_FAILED',
+    },
+    detail: {
+      type: 'string',
+      description: 'Explanation specific to this occurrence',
+      example: 'body must have required property name',
+    },
+    instance: {
+      type: 'string',
+      description:
+        'Route that produced the problem; request values are never echoed',
+      example: '/orders/:id',
+    },
+    requestId: {
+      type: 'string',
+      description: 'Request id, also found in the server logs',
+      example: 'req-1',
+    },
+    violations: {
+      type: 'array',
+      description: 'Failed validation rules, for 400 responses',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', example: 'body.items.0.price' },
+          code: { type: 'string', example: 'too_small' },
+          message: { type: 'string', example: 'Price must be non-negative' },
+        },
+        required: ['path', 'code', 'message'],
+      },
+    },
+    brandType: {
+      type: 'string',
+      description: 'Branded type that rejected a value',
+      example: 'UserId',
+    },
+  },
+  required: ['type', 'title', 'status', 'instance', 'requestId'],
+} as const;
+
+/**
+ * Builds a route response entry for an error status
+ * @param description - Description of the response in the OpenAPI document
+ * @returns A response schema referencing the shared problem details schema
+ */
+export function problemResponse(description: string): {
+  description: string;
+  content: Record<
+    typeof PROBLEM_CONTENT_TYPE,
+    { schema: { $ref: `${typeof PROBLEM_SCHEMA_ID}#` } }
+  >;
+} {
+  return {
+    description,
+    content: {
+      [PROBLEM_CONTENT_TYPE]: { schema: { $ref: `${PROBLEM_SCHEMA_ID}#` } },
+    },
+  };
+}
+
+/**
+ * Builds the shared schema of a catalogued error: problem details whose code
+ * is fixed. Its `$id` is the code, so a discriminator on `code` needs no
+ * mapping.
+ * @param definition - An error created by `defineError`
+ * @returns A schema to register with `addSchema`
+ */
+export function errorSchema(definition: ErrorDefinition): {
+  $id: string;
+  description: string;
+  allOf: [{ $ref: `${typeof PROBLEM_SCHEMA_ID}#` }, Record<string, unknown>];
+} {
+  return {
+    $id: definition.code,
+    description: definition.description,
+    allOf: [
+      { $ref: `${PROBLEM_SCHEMA_ID}#` },
+      {
+        type: 'object',
+        properties: {
+          status: { type: 'integer', enum: [definition.statusCode] },
+          code: { type: 'string', enum: [definition.code] },
+        },
+        required: ['code'],
+      },
+    ],
+  };
+}
+
+/** A problem response entry of a route's `schema.response` */
+export interface ErrorResponse {
+  description: string;
+  content: Record<string, unknown>;
+}
+
+/**
+ * Builds the route response entries for the errors a route can return.
+ * Errors sharing a status become a union discriminated by `code`.
+ * @param definitions - Errors created by `defineError`
+ * @returns Response entries keyed by status, to spread into `response`
+ */
+export function errorResponses<const D extends readonly ErrorDefinition[]>(
+  ...definitions: D
+): Record<D[number]['statusCode'], ErrorResponse> {
+  const byStatus = new Map<number, ErrorDefinition[]>();
+  for (const definition of definitions) {
+    byStatus.set(definition.statusCode, [
+      ...(byStatus.get(definition.statusCode) ?? []),
+      definition,
+    ]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, group]): [number, ErrorResponse] => {
+      const single = group.length === 1 ? group[0] : undefined;
+      const schema =
+        single !== undefined
+          ? { $ref: `${single.code}#` }
+          : {
+              oneOf: group.map(({ code }) => ({ $ref: `${code}#` })),
+              discriminator: { propertyName: 'code' },
+            };
+      const description =
+        single?.description ?? STATUS_CODES[String(status)] ?? 'Error';
+      return [
+        status,
+        { description, content: { [PROBLEM_CONTENT_TYPE]: { schema } } },
+      ];
+    })
+    // One entry per status of the definitions
+  ) as Record<D[number]['statusCode'], ErrorResponse>;
+}
+
+type ProblemFields = Pick<
+  ProblemDetails,
+  'status' | 'code' | 'detail' | 'violations' | 'brandType'
+>;
+
+const joinPath = (...segments: (string | number | undefined)[]): string =>
+  segments.filter(segment => segment !== undefined && segment !== '').join('.');
+
+// Zod's enum message quotes the received value; everything else describes
+// the rule
+const toViolation = (issue: ZodIssue, context?: string): Violation => ({
+  path: joinPath(context, ...issue.path),
+  code: issue.code,
+  message:
+    issue.code === 'invalid_enum_value'
+      ? `Expected one of: ${issue.options.join(', ')}`
+      : issue.message,
+});
+
+/**
+ * Maps catalogued errors to their status and code, and validation failures to
+ * 400 responses: Fastify schema validation, ZodError (from a Zod validator or
+ * a handler calling `.parse()`) and BrandValidationError. The messages of the
+ * latter two can echo the rejected value, so only the rule that failed is
+ * reported.
+ */
+const mapError = (error: FastifyError): ProblemFields => {
+  if (error instanceof AppError) {
+    return {
+      status: error.statusCode,
+      code: error.code,
+      detail: error.message,
+    };
+  }
+
+  if (error instanceof ZodError) {
+    return {
+      status: ValidationFailed.statusCode,
+      code: ValidationFailed.code,
+      detail: 'Validation failed',
+      violations: error.issues.map(issue =>
+        toViolation(issue, error.validationContext)
+      ),
+    };
+  }
+
+  if (error instanceof BrandValidationError) {
+    return {
+      status: BrandValidationFailed.statusCode,
+      code: BrandValidationFailed.code,
+      detail: `Invalid ${error.brandType}`,
+      brandType: error.brandType,
+    };
+  }
+
+  const status =
+    error.statusCode !== undefined && error.statusCode >= 400
+      ? error.statusCode
+      : 500;
+
+  if (error.validation !== undefined) {
+    return {
+      status,
+      code: ValidationFailed.code,
+      detail: error.message,
+      violations: error.validation.map(
+        ({ keyword, instancePath, params, message }) => ({
+          path: joinPath(
+            error.validationContext,
+            ...instancePath.split('/'),
+            keyword === 'required'
+              ? String(params['missingProperty'])
+              : undefined
+          ),
+          code: keyword,
+          message: message ?? error.message,
+        })
+      ),
+    };
+  }
+
+  return {
+    status,
+    ...(status === InternalError.statusCode && { code: InternalError.code }),
+    detail: error.message,
+  };
+};
+
+// The request path without its query string, which may hold secrets
+const pathOf = (request: FastifyRequest): string =>
+  request.url.split('?')[0] ?? '/';
+
+const toProblem = (
+  request: FastifyRequest,
+  { status, code, detail, ...extensions }: ProblemFields
+): ProblemDetails => ({
+  type: 'about:blank',
+  title: STATUS_CODES[String(status)] ?? 'Error',
+  status,
+  ...(code !== undefined && { code }),
+  ...(detail !== undefined && { detail }),
+  // The route pattern, not the URL: path and query values may be sensitive
+  instance: request.routeOptions.url ?? pathOf(request),
+  requestId: request.id,
+  ...extensions,
+});
+
+const sendProblem = (
+  reply: FastifyReply,
+  problem: ProblemDetails
+): FastifyReply =>
+  reply.code(problem.status).type(PROBLEM_CONTENT_TYPE).send(problem);
+
+/**
+ * Renders every error, including unknown routes, as problem details, and
+ * registers the schema of every catalogued error, including errors defined
+ * after this plugin.
+ * Messages of 5xx errors are only shown outside production-like
+ * environments; they may reveal internals.
+ */
+export default fp(
+  async fastify => {
+    fastify.addSchema(ProblemDetailsSchema);
+    const addErrorSchemas = (): void => {
+      for (const definition of errorCatalog()) {
+        if (fastify.getSchema(definition.code) === undefined) {
+          fastify.addSchema(errorSchema(definition));
+        }
+      }
+    };
+    addErrorSchemas();
+    // Errors defined later, e.g. in a route module, are registered before the
+    // routes referencing them compile
+    fastify.addHook('onRoute', addErrorSchemas);
+
+    fastify.setErrorHandler((error, request, reply) => {
+      const { detail, ...fields } = mapError(error);
+
+      // Headers attached by http-errors, e.g. Retry-After or Allow
+      if ('headers' in error && typeof error.headers === 'object') {
+        reply.headers(error.headers as Record<string, string>);
+      }
+
+      if (fields.status >= 500) {
+        request.log.error({ err: error }, error.message);
+      } else {
+        request.log.info({ err: error }, error.message);
+      }
+
+      const hideDetail =
+        fields.status >= 500 && fastify.environment.productionLike;
+      return sendProblem(
+        reply,
+        toProblem(request, {
+          ...fields,
+          ...(!hideDetail && detail !== undefined && { detail }),
+        })
+      );
+    });
+
+    fastify.setNotFoundHandler((request, reply) =>
+      sendProblem(
+        reply,
+        toProblem(request, {
+          status: RouteNotFound.statusCode,
+          code: RouteNotFound.code,
+          detail: `Route ${request.method}:${pathOf(request)} not found`,
+        })
+      )
+    );
+  },
+  {
+    name: 'error-handler',
+    dependencies: ['env-plugin'],
+  }
+);
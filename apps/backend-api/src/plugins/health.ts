@@ -0,0 +1,163 @@
+import { durationMsSchema } from '@ai-fastify-template/config';
+import fp from 'fastify-plugin';
+
+/** Health check settings, added to the application config in config.ts */
+export const healthConfigFragment = {
+  HEALTH_CHECK_TIMEOUT: durationMsSchema(
+    'HEALTH_CHECK_TIMEOUT',
+    2_000,
+    'Milliseconds a health check may take before it counts as failed'
+  ),
+  HEALTH_CACHE_TTL: durationMsSchema(
+    'HEALTH_CACHE_TTL',
+    1_000,
+    'Milliseconds a health report is reused before the checks run again'
+  ),
+};
+
+/** Resolves when the dependency is healthy; throws (or rejects) otherwise */
+export type HealthCheck = () => unknown;
+
+export interface HealthCheckOptions {
+  /** A failing critical check makes the service not ready (default: true) */
+  critical?: boolean;
+  /** Time limit in milliseconds (defaults to HEALTH_CHECK_TIMEOUT) */
+  timeout?: number;
+}
+
+export interface HealthCheckResult {
+  status: 'ok' | 'error';
+  critical: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  /** `degraded` means only non-critical checks failed */
+  status: 'ok' | 'degraded' | 'error';
+  checks: Record<string, HealthCheckResult>;
+  checkedAt: string;
+}
+
+export interface HealthRegistry {
+  /** Adds a named check, e.g. a database ping, to the readiness report */
+  register(
+    name: string,
+    check: HealthCheck,
+    options?: HealthCheckOptions
+  ): void;
+  /** Runs every check, reusing a report younger than HEALTH_CACHE_TTL */
+  check(): Promise<HealthReport>;
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    health: HealthRegistry;
+  }
+}
+
+interface RegisteredCheck {
+  check: HealthCheck;
+  critical: boolean;
+  timeout: number;
+}
+
+async function runCheck(
+  name: string,
+  { check, critical, timeout }: RegisteredCheck
+): Promise<HealthCheckResult> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    await Promise.race([
+      Promise.resolve().then(check),
+      new Promise((_resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`${name} timed out after ${timeout}ms`)),
+          timeout
+        );
+      }),
+    ]);
+    return { status: 'ok', critical, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'error',
+      critical,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export default fp(
+  async fastify => {
+    const checks = new Map<string, RegisteredCheck>();
+    let cached: { report: HealthReport; expiresAt: number } | undefined;
+    let running: Promise<HealthReport> | undefined;
+
+    const runChecks = async (): Promise<HealthReport> => {
+      const results = await Promise.all(
+        [...checks].map(async ([name, registered]) => {
+          const result = await runCheck(name, registered);
+          if (result.status === 'error') {
+            fastify.log.warn({ check: name, ...result }, 'Health check failed');
+          }
+          return [name, result] as const;
+        })
+      );
+
+      const failed = results.filter(([, result]) => result.status === 'error');
+      return {
+        status: failed.some(([, result]) => result.critical)
+          ? 'error'
+          : failed.length > 0
+            ? 'degraded'
+            : 'ok',
+        checks: Object.fromEntries(results),
+        checkedAt: new Date().toISOString(),
+      };
+    };
+
+    const registry: HealthRegistry = {
+      register: (name, check, options = {}) => {
+        if (checks.has(name)) {
+          throw new Error(`Health check "${name}" is already registered`);
+        }
+        checks.set(name, {
+          check,
+          critical: options.critical ?? true,
+          timeout: options.timeout ?? fastify.config.HEALTH_CHECK_TIMEOUT,
+        });
+        cached = undefined;
+      },
+
+      check: async () => {
+        if (cached !== undefined && cached.expiresAt > Date.now()) {
+          return cached.report;
+        }
+        // Concurrent probes share one run instead of piling onto dependencies
+        running ??= runChecks()
+          .then(report => {
+            cached = {
+              report,
+              expiresAt: Date.now() + fastify.config.HEALTH_CACHE_TTL,
+            };
+            return report;
+          })
+          .finally(() => {
+            running = undefined;
+          });
+        return running;
+      },
+    };
+
+    fastify.decorate('health', registry);
+  },
+  {
+    name: 'health',
+    dependencies: ['env-plugin'],
+  }
+);
@@ -0,0 +1,529 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { ConfigRuleIssue } from '@ai-fastify-template/config';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import type {
+  FastifyError,
+  FastifyPluginAsync,
+  FastifyRequest,
+  HTTPMethods,
+} from 'fastify';
+import fp from 'fastify-plugin';
+import { z } from 'zod';
+
+type Json = Record<string, unknown>;
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+// Where each parameter location is found on the request
+const PARAMETER_PARTS = [
+  {
+    location: 'path',
+    context: 'params',
+    select: (request: FastifyRequest): unknown => request.params,
+  },
+  {
+    location: 'query',
+    context: 'querystring',
+    select: (request: FastifyRequest): unknown => request.query,
+  },
+  {
+    location: 'header',
+    context: 'headers',
+    select: (request: FastifyRequest): unknown => request.headers,
+  },
+];
+
+// Stand-ins for string formats; fixed so mock responses are repeatable
+const FORMAT_SAMPLES: Record<string, string> = {
+  'date-time': '2024-01-01T00:00:00.000Z',
+  date: '2024-01-01',
+  time: '00:00:00',
+  email: 'user@example.com',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  hostname: 'example.com',
+  ipv4: '192.0.2.1',
+  ipv6: '2001:db8::1',
+  uuid: '00000000-0000-4000-8000-000000000000',
+};
+
+// Recursive schemas (e.g. a tree of categories) stop at this depth
+const MAX_SAMPLE_DEPTH = 8;
+
+/** Path of the document `pnpm openapi:generate` writes */
+export const DEFAULT_MOCK_SPEC_FILE = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '..',
+  '..',
+  'openapi.json'
+);
+
+/** Mock server settings, added to the application config in config.ts */
+export const mockConfigFragment = {
+  MOCK_MODE: z
+    .enum(['true', 'false'], {
+      errorMap: () => ({ message: 'MOCK_MODE must be true or false' }),
+    })
+    .default('false')
+    .transform(value => value === 'true')
+    .describe(
+      'Answer every operation of the OpenAPI document with its examples instead of the route handlers'
+    ),
+  MOCK_SPEC_FILE: z
+    .string({ invalid_type_error: 'MOCK_SPEC_FILE must be a string' })
+    .regex(/\.json$/, 'MOCK_SPEC_FILE must be a .json file')
+    .optional()
+    .describe(
+      'OpenAPI document served with MOCK_MODE; defaults to the committed openapi.json'
+    ),
+};
+
+export interface MockConfig {
+  MOCK_MODE: boolean;
+  MOCK_SPEC_FILE?: string | undefined;
+}
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): Json => (isRecord(value) ? value : {});
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? (value as unknown[]) : [];
+
+/**
+ * Reads the OpenAPI document served in mock mode
+ * @param path - The JSON document (defaults to the committed openapi.json)
+ * @returns The parsed document
+ */
+export function readMockSpec(path: string = DEFAULT_MOCK_SPEC_FILE): Json {
+  const spec: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (!isRecord(spec) || !isRecord(spec['paths'])) {
+    throw new Error(`${path} is not an OpenAPI document: it has no paths`);
+  }
+  return spec;
+}
+
+/**
+ * Cross-field rules for the mock settings: in mock mode the document must be
+ * readable at startup
+ * @param config - The parsed mock settings
+ * @returns An issue when the document cannot be loaded
+ */
+export function validateMockConfig(config: MockConfig): ConfigRuleIssue[] {
+  if (!config.MOCK_MODE) return [];
+  try {
+    readMockSpec(config.MOCK_SPEC_FILE);
+    return [];
+  } catch (error) {
+    return [
+      {
+        field: 'MOCK_SPEC_FILE',
+        message: `MOCK_MODE needs a readable OpenAPI document: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ];
+  }
+}
+
+// Follows local references such as #/components/schemas/HealthReport
+function dereference(spec: Json, value: unknown): Json {
+  let current = value;
+  for (let depth = 0; depth < 16; depth++) {
+    const ref = asRecord(current)['$ref'];
+    if (typeof ref !== 'string' || !ref.startsWith('#/')) break;
+    current = ref
+      .slice(2)
+      .split('/')
+      .reduce<unknown>(
+        // eslint-disable-next-line security/detect-object-injection
+        (node, segment) => asRecord(node)[segment],
+        spec
+      );
+  }
+  return asRecord(current);
+}
+
+function sampleString(schema: Json): string {
+  const format = schema['format'];
+  const sample =
+    typeof format === 'string' && Object.hasOwn(FORMAT_SAMPLES, format)
+      ? // eslint-disable-next-line security/detect-object-injection
+        (FORMAT_SAMPLES[format] ?? 'string')
+      : 'string';
+  const minLength = schema['minLength'];
+  return typeof minLength === 'number' ? sample.padEnd(minLength, 'x') : sample;
+}
+
+function sampleNumber(schema: Json): number {
+  const { minimum, exclusiveMinimum, maximum } = schema;
+  if (typeof minimum === 'number') return minimum;
+  if (typeof exclusiveMinimum === 'number') return exclusiveMinimum + 1;
+  return typeof maximum === 'number' && maximum < 0 ? maximum : 0;
+}
+
+/**
+ * Builds a value that matches a schema: its example, default, const or first
+ * enum value where declared, otherwise a placeholder of the declared type
+ * @param spec - The document, for resolving references
+ * @param value - The schema
+ * @param depth - Nesting level, for stopping on recursive schemas
+ * @returns The sample value
+ */
+export function sampleFromSchema(
+  spec: Json,
+  value: unknown,
+  depth = 0
+): unknown {
+  const schema = dereference(spec, value);
+  if ('example' in schema) return schema['example'];
+  if ('default' in schema) return schema['default'];
+  if ('const' in schema) return schema['const'];
+  const [firstEnum] = asArray(schema['enum']);
+  if (firstEnum !== undefined) return firstEnum;
+  if (depth > MAX_SAMPLE_DEPTH) return null;
+
+  const allOf = asArray(schema['allOf']);
+  if (allOf.length > 0) {
+    const parts = allOf.map(part => sampleFromSchema(spec, part, depth + 1));
+    return parts.every(isRecord) ? Object.assign({}, ...parts) : parts.at(-1);
+  }
+  const [alternative] = [
+    ...asArray(schema['oneOf']),
+    ...asArray(schema['anyOf']),
+  ];
+  if (alternative !== undefined) {
+    return sampleFromSchema(spec, alternative, depth + 1);
+  }
+
+  const declared: unknown = Array.isArray(schema['type'])
+    ? asArray(schema['type']).find(type => type !== 'null')
+    : schema['type'];
+  const type =
+    declared ??
+    (isRecord(schema['properties'])
+      ? 'object'
+      : schema['items'] !== undefined
+        ? 'array'
+        : undefined);
+
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(asRecord(schema['properties'])).map(
+          ([name, property]) => [
+            name,
+            sampleFromSchema(spec, property, depth + 1),
+          ]
+        )
+      );
+    case 'array': {
+      const minItems = schema['minItems'];
+      const item = sampleFromSchema(spec, schema['items'], depth + 1);
+      return Array.from(
+        { length: typeof minItems === 'number' ? Math.max(minItems, 1) : 1 },
+        () => item
+      );
+    }
+    case 'string':
+      return sampleString(schema);
+    case 'integer':
+      return Math.ceil(sampleNumber(schema));
+    case 'number':
+      return sampleNumber(schema);
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+/** The response a mocked operation sends */
+export interface MockResponse {
+  statusCode: number;
+  /** Absent when the documented response has no content */
+  contentType?: string;
+  body?: unknown;
+}
+
+// Documented status keys: 200, 2XX or default
+const statusOf = (key: string): number =>
+  /^\dXX$/i.test(key)
+    ? Number(`${key.charAt(0)}00`)
+    : key === 'default'
+      ? 200
+      : Number(key);
+
+/**
+ * Reads the status code a client asks for with `Prefer: code=404`
+ * @param prefer - The Prefer header
+ * @returns The code, or undefined when none is asked for
+ */
+export function preferredStatus(
+  prefer: string | string[] | undefined
+): number | undefined {
+  const header = Array.isArray(prefer) ? prefer.join(',') : (prefer ?? '');
+  const match = /(?:^|[\s,;])code=("?)([1-5]\d\d)\1(?=$|[\s,;])/i.exec(header);
+  return match?.[2] === undefined ? undefined : Number(match[2]);
+}
+
+/**
+ * Picks the response of an operation and builds its body: the preferred
+ * status if documented (by code, class or `default`), otherwise the first
+ * success response; the JSON
+ * media type when there is one; the declared example, otherwise a sample
+ * of the schema
+ * @param spec - The document, for resolving references
+ * @param operation - The operation object
+ * @param status - A status code the client asked for
+ * @returns The status, content type and body to send
+ */
+export function mockResponse(
+  spec: Json,
+  operation: Json,
+  status?: number
+): MockResponse {
+  const responses = asRecord(operation['responses']);
+  const keys = Object.keys(responses);
+
+  // An undocumented preference is ignored, as RFC 7240 allows
+  const code = status === undefined ? undefined : String(status);
+  let key =
+    code === undefined
+      ? undefined
+      : [code, `${code.charAt(0)}XX`, `${code.charAt(0)}xx`, 'default'].find(
+          candidate => candidate in responses
+        );
+  let statusCode: number;
+  if (key !== undefined && status !== undefined) {
+    statusCode = status;
+  } else {
+    key =
+      keys
+        .filter(candidate => candidate.startsWith('2'))
+        .sort((a, b) => statusOf(a) - statusOf(b))[0] ??
+      (keys.includes('default') ? 'default' : keys[0]);
+    statusCode = key === undefined ? 200 : statusOf(key);
+  }
+
+  const content = asRecord(
+    // eslint-disable-next-line security/detect-object-injection
+    dereference(spec, key === undefined ? undefined : responses[key])['content']
+  );
+  const contentType =
+    Object.keys(content).find(type => type.includes('json')) ??
+    Object.keys(content)[0];
+  if (contentType === undefined) return { statusCode };
+
+  // eslint-disable-next-line security/detect-object-injection
+  const media = asRecord(content[contentType]);
+  const namedExample = Object.values(asRecord(media['examples']))[0];
+  const body =
+    media['example'] ??
+    (namedExample === undefined
+      ? sampleFromSchema(spec, media['schema'])
+      : asRecord(dereference(spec, namedExample))['value']);
+  return { statusCode, contentType, body };
+}
+
+// Shaped like Fastify's own schema validation errors, so the error handler
+// answers with the usual problem details and violations
+function validationError(context: string, errors: ErrorObject[]): FastifyError {
+  const error = new Error(
+    errors
+      .map(
+        ({ instancePath, message }) => `${context}${instancePath} ${message}`
+      )
+      .join(', ')
+  ) as FastifyError;
+  error.statusCode = 400;
+  error.validation = errors.map(
+    ({ keyword, instancePath, schemaPath, params, message }) => ({
+      keyword,
+      instancePath,
+      schemaPath,
+      params,
+      ...(message !== undefined && { message }),
+    })
+  );
+  error.validationContext = context as NonNullable<
+    FastifyError['validationContext']
+  >;
+  return error;
+}
+
+/**
+ * Compiles the request checks of an operation: parameters by location and
+ * the JSON request body
+ * @returns A function that throws a 400 error for an invalid request
+ */
+function createRequestValidator(
+  ajv: Ajv,
+  spec: Json,
+  pathItem: Json,
+  operation: Json
+): (request: FastifyRequest) => void {
+  // Operation parameters override path-level ones with the same name
+  const parameters = new Map(
+    [...asArray(pathItem['parameters']), ...asArray(operation['parameters'])]
+      .map(parameter => dereference(spec, parameter))
+      .map(parameter => [
+        `${String(parameter['in'])}:${String(parameter['name'])}`,
+        parameter,
+      ])
+  );
+
+  const checks: {
+    context: string;
+    select: (request: FastifyRequest) => unknown;
+    validate: ValidateFunction;
+  }[] = [];
+
+  for (const { location, context, select } of PARAMETER_PARTS) {
+    const declared = [...parameters.values()].filter(
+      parameter => parameter['in'] === location
+    );
+    if (declared.length === 0) continue;
+    // Header names arrive lowercased
+    const nameOf = (parameter: Json): string =>
+      location === 'header'
+        ? String(parameter['name']).toLowerCase()
+        : String(parameter['name']);
+
+    checks.push({
+      context,
+      select,
+      validate: ajv.compile({
+        type: 'object',
+        properties: Object.fromEntries(
+          declared.map(parameter => [
+            nameOf(parameter),
+            parameter['schema'] ?? {},
+          ])
+        ),
+        required: declared
+          .filter(parameter => parameter['required'] === true)
+          .map(nameOf),
+        components: spec['components'],
+      }),
+    });
+  }
+
+  const requestBody = dereference(spec, operation['requestBody']);
+  const content = asRecord(requestBody['content']);
+  const jsonType = Object.keys(content).find(type => type.includes('json'));
+  const bodySchema =
+    jsonType === undefined
+      ? undefined
+      : // eslint-disable-next-line security/detect-object-injection
+        asRecord(content[jsonType])['schema'];
+  const bodyRequired = requestBody['required'] === true;
+  if (bodySchema !== undefined) {
+    checks.push({
+      context: 'body',
+      select: request => request.body,
+      validate: ajv.compile({
+        allOf: [bodySchema],
+        components: spec['components'],
+      }),
+    });
+  }
+
+  return request => {
+    for (const { context, select, validate } of checks) {
+      const value = select(request);
+      if (context === 'body' && value === undefined && !bodyRequired) continue;
+      if (!validate(value)) {
+        throw validationError(context, validate.errors ?? []);
+      }
+    }
+  };
+}
+
+// OpenAPI path templates use {name}; Fastify routes use :name
+const toRoutePath = (path: string): string =>
+  path.replace(/\{([^}]+)\}/g, ':$1');
+
+/**
+ * Mock mode (MOCK_MODE=true): registers every operation of the OpenAPI
+ * document and answers from its examples, so clients can be built against
+ * endpoints that are specified but not implemented. Requests are validated
+ * against the document; `Prefer: code=404` selects a documented response,
+ * and is ignored when that status is not documented.
+ * The route handlers are not loaded in this mode (see app.ts).
+ */
+const mockPlugin: FastifyPluginAsync = async fastify => {
+  if (!fastify.config.MOCK_MODE) return;
+
+  const file = fastify.config.MOCK_SPEC_FILE ?? DEFAULT_MOCK_SPEC_FILE;
+  const spec = readMockSpec(file);
+  // Coerces parameters like Fastify's own validator; formats as in the document
+  const ajv = new Ajv({ allErrors: true, strict: false, coerceTypes: 'array' });
+  addFormats(ajv);
+
+  let operations = 0;
+  for (const [path, item] of Object.entries(asRecord(spec['paths']))) {
+    const pathItem = asRecord(item);
+
+    // eslint-disable-next-line security/detect-object-injection
+    for (const method of METHODS.filter(name => isRecord(pathItem[name]))) {
+      // eslint-disable-next-line security/detect-object-injection
+      const operation = asRecord(pathItem[method]);
+      const validateRequest = createRequestValidator(
+        ajv,
+        spec,
+        pathItem,
+        operation
+      );
+
+      fastify.route({
+        method: method.toUpperCase() as HTTPMethods,
+        url: toRoutePath(path),
+        // The document is served as is (see swagger.ts)
+        schema: { hide: true },
+        // An explicit HEAD operation takes the place of the implicit one
+        exposeHeadRoute: !isRecord(pathItem['head']),
+        handler: async (request, reply) => {
+          validateRequest(request);
+
+          const status = preferredStatus(request.headers['prefer']);
+          const { statusCode, contentType, body } = mockResponse(
+            spec,
+            operation,
+            status
+          );
+          void reply.code(statusCode);
+          if (status === statusCode) {
+            void reply.header('preference-applied', `code=${String(status)}`);
+          }
+          if (contentType === undefined) return reply.send();
+
+          return reply
+            .type(contentType)
+            .send(
+              typeof body === 'string' && !contentType.includes('json')
+                ? body
+                : JSON.stringify(body)
+            );
+        },
+      });
+      operations++;
+    }
+  }
+
+  // The documentation serves the mocked document (see swagger.ts)
+  fastify.decorate('staticOpenApiFile', file);
+
+  fastify.log.info(
+    { file, operations },
+    'Mock mode: answering from the OpenAPI document'
+  );
+};
+
+export default fp(mockPlugin, {
+  name: 'mock',
+  dependencies: ['env-plugin'],
+});
@@ -0,0 +1,242 @@
+import {
+  RESPONSE_VALIDATION_MODES,
+  type ResponseValidationMode,
+} from '@ai-fastify-template/config';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import type { FastifyReply } from 'fastify';
+import fp from 'fastify-plugin';
+import { z } from 'zod';
+
+import { InternalError } from '../errors.js';
+
+import { getZodSource } from './zod.js';
+
+/** Response validation settings, added to the application config in config.ts */
+export const responseValidationConfigFragment = {
+  RESPONSE_VALIDATION: z
+    .enum(RESPONSE_VALIDATION_MODES, {
+      errorMap: () => ({
+        message: `RESPONSE_VALIDATION must be one of: ${RESPONSE_VALIDATION_MODES.join(', ')}`,
+      }),
+    })
+    .optional()
+    .describe(
+      'Check responses against their schema: off, log or enforce (500 on mismatch); defaults to the APP_ENV profile'
+    ),
+  RESPONSE_VALIDATION_SAMPLE_RATE: z
+    .string({
+      invalid_type_error: 'RESPONSE_VALIDATION_SAMPLE_RATE must be a string',
+    })
+    .trim()
+    .min(1, 'RESPONSE_VALIDATION_SAMPLE_RATE must be a number from 0 to 1')
+    .transform(Number)
+    .refine(
+      rate => rate >= 0 && rate <= 1,
+      'RESPONSE_VALIDATION_SAMPLE_RATE must be a number from 0 to 1'
+    )
+    .optional()
+    .describe(
+      'Share of responses checked, from 0 to 1; defaults to the APP_ENV profile'
+    ),
+};
+
+/** A response field that does not match the declared schema */
+export interface ResponseViolation {
+  /** Dotted path inside the payload; empty for the payload itself */
+  path: string;
+  message: string;
+}
+
+type ResponseValidator = (payload: unknown) => ResponseViolation[];
+
+/**
+ * Picks the declared schema for a status code: the exact code, then its
+ * class (`2xx`), then `default`. Entries with `content` (e.g. problem
+ * responses) are matched by media type.
+ * @param response - The route's `schema.response`
+ * @param statusCode - Status code of the reply
+ * @param contentType - Content-Type of the reply, if already set
+ * @returns The schema, or undefined when none is declared
+ */
+export function findResponseSchema(
+  response: unknown,
+  statusCode: number,
+  contentType?: string
+): object | undefined {
+  if (typeof response !== 'object' || response === null) return undefined;
+
+  const status = String(statusCode);
+  const entries = new Map(Object.entries(response));
+  const entry: unknown =
+    entries.get(status) ??
+    entries.get(`${status.charAt(0)}xx`) ??
+    entries.get('default');
+  if (typeof entry !== 'object' || entry === null) return undefined;
+  if (!('content' in entry)) return entry;
+
+  const content = new Map(Object.entries(entry.content as object));
+  const mediaType = contentType?.split(';')[0]?.trim();
+  const media: unknown =
+    (mediaType !== undefined ? content.get(mediaType) : undefined) ??
+    content.values().next().value;
+  return typeof media === 'object' && media !== null && 'schema' in media
+    ? (media.schema as object)
+    : undefined;
+}
+
+const toPath = (segments: readonly (string | number)[]): string =>
+  segments.join('.');
+
+/**
+ * Checks every response (or a sample of them) against the schema the route
+ * declares for its status code. Zod schemas are checked with Zod, JSON Schema
+ * with Ajv. Mismatches are logged with the route, status and path; in
+ * enforce mode the response is replaced with a 500. Error responses (5xx)
+ * are only logged: they already report a failure. JSON payloads sent as
+ * strings are parsed and checked too.
+ */
+export default fp(
+  async fastify => {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    addFormats(ajv);
+
+    // Shared schemas (problem details, catalogued errors) resolve by $id
+    fastify.addHook('onReady', async () => {
+      for (const schema of Object.values(fastify.getSchemas())) {
+        ajv.addSchema(schema as object);
+      }
+    });
+
+    const validators = new WeakMap<object, ResponseValidator>();
+
+    const compile = (schema: object): ResponseValidator => {
+      const zodSchema = getZodSource(schema);
+      if (zodSchema !== undefined) {
+        return payload => {
+          try {
+            const result = zodSchema.safeParse(payload);
+            return result.success
+              ? []
+              : result.error.issues.map(issue => ({
+                  path: toPath(issue.path),
+                  message: issue.message,
+                }));
+          } catch (error) {
+            // Branded constructors throw from a transform
+            return [{ path: '', message: String(error) }];
+          }
+        };
+      }
+
+      const validate = ajv.compile(schema);
+      return payload =>
+        validate(payload)
+          ? []
+          : (validate.errors ?? []).map(({ instancePath, message }) => ({
+              path: toPath(instancePath.split('/').filter(Boolean)),
+              message: message ?? 'is invalid',
+            }));
+    };
+
+    const validatorFor = (schema: object): ResponseValidator => {
+      let validator = validators.get(schema);
+      if (validator === undefined) {
+        validator = compile(schema);
+        validators.set(schema, validator);
+      }
+      return validator;
+    };
+
+    // Read per request so a config reload applies immediately
+    const settings = (): { mode: ResponseValidationMode; rate: number } => ({
+      mode:
+        fastify.config.RESPONSE_VALIDATION ??
+        fastify.environment.responseValidation,
+      rate:
+        fastify.config.RESPONSE_VALIDATION_SAMPLE_RATE ??
+        fastify.environment.responseValidationSampleRate,
+    });
+
+    // The schema to check the reply against, when this reply is sampled
+    const sampledSchema = (
+      reply: FastifyReply
+    ): { mode: ResponseValidationMode; schema: object } | undefined => {
+      const { mode, rate } = settings();
+      if (mode === 'off' || Math.random() >= rate) return undefined;
+
+      const contentType = reply.getHeader('content-type');
+      const schema = findResponseSchema(
+        reply.request.routeOptions.schema?.response,
+        reply.statusCode,
+        typeof contentType === 'string' ? contentType : undefined
+      );
+      return schema === undefined ? undefined : { mode, schema };
+    };
+
+    const report = (
+      reply: FastifyReply,
+      mode: ResponseValidationMode,
+      violations: ResponseViolation[]
+    ): void => {
+      if (violations.length === 0) return;
+
+      const { request } = reply;
+      const details = {
+        route: `${request.method} ${request.routeOptions.url ?? request.url}`,
+        statusCode: reply.statusCode,
+        violations,
+      };
+      if (mode === 'enforce' && reply.statusCode < 500) {
+        request.log.error(details, 'Response does not match its schema');
+        throw new InternalError('Response does not match its schema');
+      }
+      request.log.warn(details, 'Response does not match its schema');
+    };
+
+    // Replies that went through preSerialization, sampled or not
+    const seen = new WeakSet<FastifyReply>();
+
+    fastify.addHook('preSerialization', async (_request, reply, payload) => {
+      seen.add(reply);
+      const sampled = sampledSchema(reply);
+      if (sampled !== undefined) {
+        report(reply, sampled.mode, validatorFor(sampled.schema)(payload));
+      }
+      return payload;
+    });
+
+    // Fastify sends strings as they are, skipping preSerialization, so JSON a
+    // handler serialized itself is parsed back here to be checked
+    fastify.addHook('onSend', async (_request, reply, payload) => {
+      const contentType = reply.getHeader('content-type');
+      if (
+        seen.has(reply) ||
+        typeof payload !== 'string' ||
+        typeof contentType !== 'string' ||
+        !contentType.includes('json')
+      ) {
+        return payload;
+      }
+
+      const sampled = sampledSchema(reply);
+      if (sampled === undefined) return payload;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(payload);
+      } catch {
+        report(reply, sampled.mode, [
+          { path: '', message: 'Response is not valid JSON' },
+        ]);
+        return payload;
+      }
+      report(reply, sampled.mode, validatorFor(sampled.schema)(parsed));
+      return payload;
+    });
+  },
+  {
+    name: 'response-validation',
+    dependencies: ['env-plugin'],
+  }
+);
@@ -0,0 +1,27 @@
+import fp from 'fastify-plugin';
+
+import { sharedSchemas } from '../schemas.js';
+
+import { isZodSchema, toJsonSchema } from './zod.js';
+
+/**
+ * Registers the shared schemas (schemas.ts) under their name, so route
+ * schemas can `$ref` them: serialization and response validation resolve
+ * the reference, and the OpenAPI document lists each one in
+ * `components/schemas`.
+ */
+export default fp(
+  async fastify => {
+    for (const [name, schema] of sharedSchemas()) {
+      fastify.addSchema({
+        ...(isZodSchema(schema)
+          ? toJsonSchema(schema, { inline: true })
+          : schema),
+        $id: name,
+      });
+    }
+  },
+  {
+    name: 'schemas',
+  }
+);
@@ -0,0 +1,217 @@
+import type { Http2Session } from 'node:http2';
+
+import { durationMsSchema, redactUrl } from '@ai-fastify-template/config';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+
+/** Shutdown settings, added to the application config in config.ts */
+export const shutdownConfigFragment = {
+  SHUTDOWN_DRAIN_TIMEOUT: durationMsSchema(
+    'SHUTDOWN_DRAIN_TIMEOUT',
+    10_000,
+    'Milliseconds in-flight requests may take to finish once shutdown starts'
+  ),
+  SHUTDOWN_HOOK_TIMEOUT: durationMsSchema(
+    'SHUTDOWN_HOOK_TIMEOUT',
+    5_000,
+    'Milliseconds each hook registered with onShutdown may take before it is abandoned; other onClose hooks are not limited'
+  ),
+  SHUTDOWN_TIMEOUT: durationMsSchema(
+    'SHUTDOWN_TIMEOUT',
+    30_000,
+    'Milliseconds after which shutdown gives up and the process exits'
+  ),
+};
+
+export type ShutdownHook = (instance: FastifyInstance) => Promise<void> | void;
+
+export interface ShutdownHookOptions {
+  /** Time limit in milliseconds (defaults to SHUTDOWN_HOOK_TIMEOUT) */
+  timeout?: number;
+}
+
+export interface PendingRequest {
+  id: string;
+  method: string;
+  url: string;
+  elapsedMs: number;
+}
+
+export interface ShutdownResult {
+  /** `timed-out` means SHUTDOWN_TIMEOUT passed before everything closed */
+  status: 'completed' | 'timed-out';
+  reason: string;
+  durationMs: number;
+  /** Requests still running when shutdown finished or gave up */
+  pendingRequests: PendingRequest[];
+  /** Shutdown hooks still running when shutdown finished or gave up */
+  pendingHooks: string[];
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /**
+     * Registers an `onClose` hook that is abandoned (and logged) when it
+     * exceeds its time limit, so one stuck resource cannot block shutdown.
+     * Hooks added with `addHook('onClose')` have no limit of their own; only
+     * SHUTDOWN_TIMEOUT bounds them.
+     */
+    onShutdown(
+      name: string,
+      hook: ShutdownHook,
+      options?: ShutdownHookOptions
+    ): void;
+    /** True once shutdown has started; readiness should report 503 */
+    isShuttingDown(): boolean;
+    /**
+     * Stops accepting connections, drains in-flight requests up to
+     * SHUTDOWN_DRAIN_TIMEOUT and closes the app. Resolves by SHUTDOWN_TIMEOUT
+     * at the latest; the caller decides whether to exit.
+     */
+    shutdown(reason: string): Promise<ShutdownResult>;
+  }
+}
+
+// Resolves after `ms` without keeping the process alive
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise(resolve => {
+    setTimeout(resolve, ms, value).unref();
+  });
+}
+
+export default fp(
+  async fastify => {
+    const inFlight = new Map<FastifyRequest, number>();
+    const runningHooks = new Set<string>();
+    let shutdownResult: Promise<ShutdownResult> | undefined;
+
+    fastify.addHook('onRequest', async request => {
+      inFlight.set(request, Date.now());
+    });
+    fastify.addHook('onResponse', async request => {
+      inFlight.delete(request);
+    });
+    fastify.addHook('onRequestAbort', async request => {
+      inFlight.delete(request);
+    });
+
+    // HTTP/2 servers have no closeAllConnections; their sessions are tracked
+    // so the drain timeout can close them
+    const sessions = new Set<Http2Session>();
+    fastify.server.on('session', (session: Http2Session) => {
+      sessions.add(session);
+      session.once('close', () => sessions.delete(session));
+    });
+
+    const closeAllConnections = (): void => {
+      if (typeof fastify.server.closeAllConnections === 'function') {
+        fastify.server.closeAllConnections();
+      }
+      for (const session of sessions) session.destroy();
+    };
+
+    const pendingRequests = (): PendingRequest[] => {
+      const now = Date.now();
+      return [...inFlight].map(([request, startedAt]) => ({
+        id: request.id,
+        method: request.method,
+        url: redactUrl(request.url),
+        elapsedMs: now - startedAt,
+      }));
+    };
+
+    fastify.decorate(
+      'onShutdown',
+      (name: string, hook: ShutdownHook, options: ShutdownHookOptions = {}) => {
+        const timeout = options.timeout ?? fastify.config.SHUTDOWN_HOOK_TIMEOUT;
+
+        fastify.addHook('onClose', async instance => {
+          runningHooks.add(name);
+          try {
+            const outcome = await Promise.race([
+              Promise.resolve(hook(instance)).then(() => 'done' as const),
+              delay(timeout, 'timed-out' as const),
+            ]);
+            if (outcome === 'timed-out') {
+              fastify.log.warn(
+                { hook: name, timeout },
+                'Shutdown hook timed out and was abandoned'
+              );
+            }
+          } catch (error) {
+            fastify.log.error({ hook: name, error }, 'Shutdown hook failed');
+          } finally {
+            runningHooks.delete(name);
+          }
+        });
+      }
+    );
+
+    fastify.decorate('isShuttingDown', () => shutdownResult !== undefined);
+
+    const shutdown = async (reason: string): Promise<ShutdownResult> => {
+      const {
+        SHUTDOWN_DRAIN_TIMEOUT: drainTimeout,
+        SHUTDOWN_TIMEOUT: timeout,
+      } = fastify.config;
+      const startedAt = Date.now();
+
+      fastify.log.info(
+        { reason, inFlight: inFlight.size, drainTimeout, timeout },
+        'Graceful shutdown started'
+      );
+
+      // Past the drain timeout, cut the connections of requests still running
+      // so the onClose hooks get their turn
+      const drainTimer = setTimeout(() => {
+        if (inFlight.size === 0) return;
+        fastify.log.warn(
+          { pendingRequests: pendingRequests() },
+          'Drain timeout reached; closing remaining connections'
+        );
+        closeAllConnections();
+      }, drainTimeout).unref();
+
+      const status = await Promise.race([
+        fastify.close().then(() => 'completed' as const),
+        delay(timeout, 'timed-out' as const),
+      ]);
+      clearTimeout(drainTimer);
+
+      const result: ShutdownResult = {
+        status,
+        reason,
+        durationMs: Date.now() - startedAt,
+        pendingRequests: pendingRequests(),
+        pendingHooks: [...runningHooks],
+      };
+
+      if (status === 'completed') {
+        fastify.log.info(
+          { durationMs: result.durationMs },
+          'Graceful shutdown completed'
+        );
+      } else {
+        fastify.log.error(
+          {
+            durationMs: result.durationMs,
+            pendingRequests: result.pendingRequests,
+            pendingHooks: result.pendingHooks,
+          },
+          'Graceful shutdown timed out; work still pending'
+        );
+      }
+
+      return result;
+    };
+
+    fastify.decorate('shutdown', (reason: string) => {
+      shutdownResult ??= shutdown(reason);
+      return shutdownResult;
+    });
+  },
+  {
+    name: 'shutdown',
+    dependencies: ['env-plugin'],
+  }
+);
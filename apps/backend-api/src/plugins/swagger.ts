@@ -1,80 +1,317 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type {
+  AppEnvironment,
+  ConfigRuleIssue,
+} from '@ai-fastify-template/config';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
 import fp from 'fastify-plugin';
+import { z } from 'zod';
 
-const swaggerPlugin: FastifyPluginAsync = async fastify => {
-  // Register Swagger for OpenAPI spec generation
-  await fastify.register(swagger, {
-    openapi: {
-      openapi: '3.0.0',
-      info: {
-        title: 'AI Fastify Template API',
-        description:
-          'Production-ready Fastify backend API with TypeScript and comprehensive validation',
-        version: '1.0.0',
-        contact: {
-          name: 'Your Name',
-          email: 'your-email@example.com',
-        },
-        license: {
-          name: 'MIT',
-          url: 'https://opensource.org/licenses/MIT',
-        },
-      },
-      servers: [
-        {
-          url: 'http://localhost:3000',
-          description: 'Development server',
+import { Unauthorized } from '../errors.js';
+
+import { transformZodSchema } from './zod.js';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /**
+     * A document to serve as is instead of the generated one; set by a
+     * plugin loaded before this one, e.g. mock.ts in mock mode
+     */
+    staticOpenApiFile?: string;
+  }
+}
+
+/** An OpenAPI tag grouping the operations of a feature */
+export interface ApiTag {
+  name: string;
+  description?: string;
+}
+
+/**
+ * What differs between services, passed from app.ts; everything else comes
+ * from package.json and the configuration
+ */
+export interface SwaggerPluginOptions {
+  /** Title of the document (defaults to the package.json name) */
+  title?: string;
+  /** Tags the routes use, in the order the documentation lists them */
+  tags?: ApiTag[];
+}
+
+export const DOCS_ACCESS_MODES = ['off', 'public', 'basic', 'bearer'] as const;
+
+export type DocsAccess = (typeof DOCS_ACCESS_MODES)[number];
+
+const credential = (name: string, description: string) =>
+  z
+    .string({ invalid_type_error: `${name} must be a string` })
+    .min(1, `${name} cannot be empty`)
+    .optional()
+    .describe(description);
+
+/** API documentation settings, added to the application config in config.ts */
+export const docsConfigFragment = {
+  DOCS_ACCESS: z
+    .enum(DOCS_ACCESS_MODES, {
+      errorMap: () => ({
+        message: `DOCS_ACCESS must be one of: ${DOCS_ACCESS_MODES.join(', ')}`,
+      }),
+    })
+    .optional()
+    .describe(
+      'Who may read /docs and /docs/json: off, public, basic (DOCS_USERNAME and DOCS_PASSWORD) or bearer (DOCS_TOKEN); defaults to public where the APP_ENV profile exposes docs, off elsewhere'
+    ),
+  DOCS_USERNAME: credential('DOCS_USERNAME', 'User name for DOCS_ACCESS=basic'),
+  DOCS_PASSWORD: credential('DOCS_PASSWORD', 'Password for DOCS_ACCESS=basic'),
+  DOCS_TOKEN: credential('DOCS_TOKEN', 'Bearer token for DOCS_ACCESS=bearer'),
+  API_PUBLIC_URL: z
+    .string({ invalid_type_error: 'API_PUBLIC_URL must be a string' })
+    .url('API_PUBLIC_URL must be an absolute URL')
+    .optional()
+    .describe(
+      'Public base URL of this deployment, listed as a server in the OpenAPI document'
+    ),
+};
+
+export interface DocsConfig {
+  DOCS_ACCESS?: DocsAccess | undefined;
+  DOCS_USERNAME?: string | undefined;
+  DOCS_PASSWORD?: string | undefined;
+  DOCS_TOKEN?: string | undefined;
+}
+
+/**
+ * Cross-field rules for the documentation settings: each protected access
+ * mode needs its credentials
+ * @param config - The parsed documentation settings
+ * @returns One issue per missing credential
+ */
+export function validateDocsConfig(config: DocsConfig): ConfigRuleIssue[] {
+  const required =
+    config.DOCS_ACCESS === 'basic'
+      ? (['DOCS_USERNAME', 'DOCS_PASSWORD'] as const)
+      : config.DOCS_ACCESS === 'bearer'
+        ? (['DOCS_TOKEN'] as const)
+        : [];
+
+  return required
+    .filter(field => {
+      // eslint-disable-next-line security/detect-object-injection
+      return config[field] === undefined;
+    })
+    .map(field => ({
+      field,
+      message: `${field} is required when DOCS_ACCESS is ${String(config.DOCS_ACCESS)}`,
+    }));
+}
+
+export interface ServerConfig {
+  PORT: number;
+  API_PUBLIC_URL?: string | undefined;
+  TLS_CERT_FILE?: string | undefined;
+}
+
+/**
+ * Lists the servers of the OpenAPI document: the public URL of the
+ * deployment when set, plus the local server in development and test
+ * @param config - The loaded configuration
+ * @param appEnv - The deployment environment
+ * @returns The `servers` entries
+ */
+export function buildServers(
+  config: ServerConfig,
+  appEnv: AppEnvironment
+): { url: string; description: string }[] {
+  const description = `${appEnv.charAt(0).toUpperCase()}${appEnv.slice(1)} server`;
+  const servers: { url: string; description: string }[] = [];
+
+  if (config.API_PUBLIC_URL !== undefined) {
+    servers.push({ url: config.API_PUBLIC_URL, description });
+  }
+  if (appEnv === 'development' || appEnv === 'test') {
+    const scheme = config.TLS_CERT_FILE !== undefined ? 'https' : 'http';
+    servers.push({
+      url: `${scheme}://localhost:${String(config.PORT)}`,
+      description,
+    });
+  }
+
+  return servers;
+}
+
+const PackageJsonSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  description: z.string().optional(),
+  license: z.string().optional(),
+  author: z
+    .union([
+      z.string().transform(name => ({ name })),
+      z
+        .object({
+          name: z.string(),
+          email: z.string().optional(),
+          url: z.string().optional(),
+        })
+        .transform(({ name, email, url }) => ({
+          name,
+          ...(email !== undefined && { email }),
+          ...(url !== undefined && { url }),
+        })),
+    ])
+    .optional(),
+});
+
+export type PackageInfo = z.infer<typeof PackageJsonSchema>;
+
+/**
+ * Reads the fields of the service's package.json the OpenAPI info uses
+ * @param path - package.json to read (defaults to the service's own)
+ * @returns Name, version, description, license and author
+ */
+export function readPackageInfo(
+  path: string = join(
+    dirname(fileURLToPath(import.meta.url)),
+    '..',
+    '..',
+    'package.json'
+  )
+): PackageInfo {
+  return PackageJsonSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+// Hashing first makes the comparison constant-time whatever the lengths
+const sameSecret = (given: string, expected: string): boolean =>
+  timingSafeEqual(
+    createHash('sha256').update(given).digest(),
+    createHash('sha256').update(expected).digest()
+  );
+
+/**
+ * Builds the credential check of a protected access mode
+ * @param config - The documentation settings
+ * @returns A check of the Authorization header, or undefined for open access
+ */
+export function docsAuthorizer(
+  config: DocsConfig
+): ((request: FastifyRequest) => boolean) | undefined {
+  const { DOCS_ACCESS, DOCS_USERNAME, DOCS_PASSWORD, DOCS_TOKEN } = config;
+
+  if (
+    DOCS_ACCESS === 'basic' &&
+    DOCS_USERNAME !== undefined &&
+    DOCS_PASSWORD !== undefined
+  ) {
+    const expected = `Basic ${Buffer.from(`${DOCS_USERNAME}:${DOCS_PASSWORD}`).toString('base64')}`;
+    return request => sameSecret(request.headers.authorization ?? '', expected);
+  }
+  if (DOCS_ACCESS === 'bearer' && DOCS_TOKEN !== undefined) {
+    const expected = `Bearer ${DOCS_TOKEN}`;
+    return request => sameSecret(request.headers.authorization ?? '', expected);
+  }
+  return undefined;
+}
+
+const swaggerPlugin: FastifyPluginAsync<SwaggerPluginOptions> = async (
+  fastify,
+  opts
+) => {
+  const pkg = readPackageInfo();
+  const servers = buildServers(fastify.config, fastify.environment.name);
+
+  const staticFile = fastify.staticOpenApiFile;
+  if (staticFile !== undefined) {
+    await fastify.register(swagger, {
+      mode: 'static',
+      specification: { path: staticFile, baseDir: dirname(staticFile) },
+    });
+  } else {
+    // Register Swagger for OpenAPI spec generation
+    await fastify.register(swagger, {
+      openapi: {
+        openapi: '3.0.0',
+        info: {
+          title: opts.title ?? pkg.name,
+          version: pkg.version,
+          ...(pkg.description !== undefined && {
+            description: pkg.description,
+          }),
+          ...(pkg.author !== undefined && { contact: pkg.author }),
+          ...(pkg.license !== undefined && {
+            license: {
+              name: pkg.license,
+              url: `https://spdx.org/licenses/${pkg.license}.html`,
+            },
+          }),
         },
-      ],
-      components: {
-        securitySchemes: {
-          bearerAuth: {
-            type: 'http',
-            scheme: 'bearer',
-            bearerFormat: 'JWT',
+        ...(servers.length > 0 && { servers }),
+        components: {
+          securitySchemes: {
+            bearerAuth: {
+              type: 'http',
+              scheme: 'bearer',
+              bearerFormat: 'JWT',
+            },
           },
         },
+        ...(opts.tags !== undefined && { tags: opts.tags }),
       },
-      tags: [
-        {
-          name: 'Root',
-          description: 'Root endpoints',
-        },
-        {
-          name: 'Example',
-          description: 'Example endpoints',
-        },
-      ],
-    },
-    hideUntagged: false,
-  });
+      hideUntagged: false,
+      // Routes may declare Zod schemas; document their JSON Schema equivalent
+      transform: transformZodSchema,
+      // Shared schemas (addSchema) become components named after their $id
+      refResolver: {
+        buildLocalReference: (json, _baseUri, _fragment, i) =>
+          typeof json['$id'] === 'string' ? json['$id'] : `def-${String(i)}`,
+      },
+    });
+  }
+
+  // Register Swagger UI (and /docs/json) unless documentation is off
+  const docs: DocsConfig = {
+    ...fastify.config,
+    DOCS_ACCESS:
+      fastify.config.DOCS_ACCESS ??
+      (fastify.environment.exposeDocs ? 'public' : 'off'),
+  };
+  if (docs.DOCS_ACCESS === 'off') return;
+
+  const authorize = docsAuthorizer(docs);
+  const challenge =
+    docs.DOCS_ACCESS === 'basic'
+      ? 'Basic realm="API documentation", charset="UTF-8"'
+      : 'Bearer realm="API documentation"';
 
-  // Register Swagger UI for interactive documentation
   await fastify.register(swaggerUi, {
     routePrefix: '/docs',
     uiConfig: {
       docExpansion: 'list',
       deepLinking: false,
     },
-    uiHooks: {
-      onRequest: function (_request, _reply, next) {
-        next();
-      },
-      preHandler: function (_request, _reply, next) {
-        next();
+    // Applies to every documentation route, including /docs/json
+    ...(authorize !== undefined && {
+      uiHooks: {
+        onRequest: (request, reply, next) => {
+          if (authorize(request)) {
+            next();
+            return;
+          }
+          void reply.header('www-authenticate', challenge);
+          next(new Unauthorized());
+        },
       },
-    },
+    }),
     staticCSP: true,
-    transformStaticCSP: header => header,
-    transformSpecification: (swaggerObject, _request, _reply) => {
-      return swaggerObject;
-    },
-    transformSpecificationClone: true,
   });
 };
 
 export default fp(swaggerPlugin, {
   name: 'swagger',
+  dependencies: ['env-plugin'],
 });
@@ -0,0 +1,216 @@
+import {
+  accessSync,
+  constants,
+  readFileSync,
+  unwatchFile,
+  watchFile,
+} from 'node:fs';
+import type { Stats } from 'node:fs';
+import type { SecureServerOptions } from 'node:http2';
+import type { SecureContextOptions, Server as TlsServer } from 'node:tls';
+
+import type { ConfigRuleIssue } from '@ai-fastify-template/config';
+import fp from 'fastify-plugin';
+import { z } from 'zod';
+
+const pemFile = (name: string, description: string) =>
+  z
+    .string({ invalid_type_error: `${name} must be a string` })
+    .min(1, `${name} cannot be empty`)
+    .optional()
+    .describe(description);
+
+const TLS_FILE_FIELDS = [
+  'TLS_CERT_FILE',
+  'TLS_KEY_FILE',
+  'TLS_CA_FILE',
+] as const;
+
+export interface TlsConfig {
+  TLS_CERT_FILE?: string | undefined;
+  TLS_KEY_FILE?: string | undefined;
+  TLS_CA_FILE?: string | undefined;
+  HTTP2: boolean;
+}
+
+/** TLS settings, added to the application config in config.ts */
+export const tlsConfigFragment = {
+  TLS_CERT_FILE: pemFile(
+    'TLS_CERT_FILE',
+    'PEM certificate chain; with TLS_KEY_FILE the server speaks HTTPS'
+  ),
+  TLS_KEY_FILE: pemFile('TLS_KEY_FILE', 'PEM private key for TLS_CERT_FILE'),
+  TLS_CA_FILE: pemFile(
+    'TLS_CA_FILE',
+    'PEM CA bundle to trust, e.g. for an internal PKI'
+  ),
+  HTTP2: z
+    .enum(['true', 'false'], {
+      errorMap: () => ({ message: 'HTTP2 must be true or false' }),
+    })
+    .default('false')
+    .transform(value => value === 'true')
+    .describe('Serve HTTP/2 with HTTP/1.1 fallback (ALPN); requires TLS'),
+};
+
+/**
+ * Cross-field rules for the TLS settings: the certificate and key come as a
+ * pair, HTTP/2 needs TLS, and every file must be readable at startup
+ * @param config - The parsed TLS settings
+ * @returns One issue per problem found
+ */
+export function validateTlsConfig(config: TlsConfig): ConfigRuleIssue[] {
+  const issues: ConfigRuleIssue[] = [];
+  const hasCert = config.TLS_CERT_FILE !== undefined;
+  const hasKey = config.TLS_KEY_FILE !== undefined;
+
+  if (hasCert && !hasKey) {
+    issues.push({
+      field: 'TLS_KEY_FILE',
+      message: 'TLS_KEY_FILE is required when TLS_CERT_FILE is set',
+    });
+  }
+  if (hasKey && !hasCert) {
+    issues.push({
+      field: 'TLS_CERT_FILE',
+      message: 'TLS_CERT_FILE is required when TLS_KEY_FILE is set',
+    });
+  }
+  if (config.TLS_CA_FILE !== undefined && !(hasCert && hasKey)) {
+    issues.push({
+      field: 'TLS_CA_FILE',
+      message: 'TLS_CA_FILE requires TLS_CERT_FILE and TLS_KEY_FILE',
+    });
+  }
+  if (config.HTTP2 && !(hasCert && hasKey)) {
+    issues.push({
+      field: 'HTTP2',
+      message: 'HTTP2 requires TLS_CERT_FILE and TLS_KEY_FILE',
+    });
+  }
+
+  for (const field of TLS_FILE_FIELDS) {
+    // eslint-disable-next-line security/detect-object-injection
+    const path = config[field];
+    if (path === undefined) continue;
+    try {
+      accessSync(path, constants.R_OK);
+    } catch (error) {
+      const reason =
+        error instanceof Error && 'code' in error
+          ? String(error.code)
+          : 'unreadable';
+      issues.push({
+        field,
+        message: `${field} points to a file that cannot be read: ${path} (${reason})`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Reads the certificate files named by the configuration
+ * @param config - The loaded TLS settings
+ * @returns Secure context options, or undefined when TLS is not configured
+ */
+export function readTlsFiles(
+  config: TlsConfig
+): SecureContextOptions | undefined {
+  const { TLS_CERT_FILE: cert, TLS_KEY_FILE: key, TLS_CA_FILE: ca } = config;
+  if (cert === undefined || key === undefined) return undefined;
+
+  return {
+    cert: readFileSync(cert),
+    key: readFileSync(key),
+    ...(ca !== undefined && { ca: readFileSync(ca) }),
+  };
+}
+
+/**
+ * Builds the Fastify server options for HTTPS or HTTP/2
+ * @param config - The loaded TLS settings
+ * @returns Options to spread into `Fastify()`; empty for plain HTTP
+ */
+export function createTlsServerOptions(config: TlsConfig): {
+  https?: SecureServerOptions;
+  http2?: true;
+} {
+  const context = readTlsFiles(config);
+  if (context === undefined) return {};
+
+  return config.HTTP2
+    ? { http2: true, https: { ...context, allowHTTP1: true } }
+    : { https: context };
+}
+
+// How often the certificate files are checked for changes
+const TLS_WATCH_INTERVAL_MS = 1_000;
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /**
+     * Re-reads the certificate files and swaps them in for new connections.
+     * Returns false (keeping the current certificates) if they are invalid.
+     */
+    reloadTlsCertificates(): boolean;
+  }
+}
+
+// https and secure http2 servers are both tls.Server
+const isTlsServer = (server: object): server is TlsServer =>
+  'setSecureContext' in server;
+
+export default fp(
+  async fastify => {
+    const reloadTlsCertificates = (): boolean => {
+      try {
+        const context = readTlsFiles(fastify.config);
+        if (context === undefined || !isTlsServer(fastify.server)) return false;
+        fastify.server.setSecureContext(context);
+        fastify.log.info('TLS certificates reloaded');
+        return true;
+      } catch (error) {
+        fastify.log.error(
+          { error },
+          'TLS certificate reload failed; keeping the current certificates'
+        );
+        return false;
+      }
+    };
+
+    fastify.decorate('reloadTlsCertificates', reloadTlsCertificates);
+
+    const { TLS_CERT_FILE, TLS_KEY_FILE, TLS_CA_FILE } = fastify.config;
+    const files = [TLS_CERT_FILE, TLS_KEY_FILE, TLS_CA_FILE].filter(
+      (path): path is string => path !== undefined
+    );
+    if (!('setSecureContext' in fastify.server) || files.length === 0) return;
+
+    // Certificate and key are usually replaced together; reload once
+    let pending: NodeJS.Timeout | undefined;
+    const onChange = (current: Stats, previous: Stats): void => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      clearTimeout(pending);
+      pending = setTimeout(reloadTlsCertificates, TLS_WATCH_INTERVAL_MS);
+    };
+
+    for (const file of files) {
+      watchFile(
+        file,
+        { interval: TLS_WATCH_INTERVAL_MS, persistent: false },
+        onChange
+      );
+    }
+
+    fastify.addHook('onClose', async () => {
+      clearTimeout(pending);
+      for (const file of files) unwatchFile(file, onChange);
+    });
+  },
+  {
+    name: 'tls',
+    dependencies: ['env-plugin'],
+  }
+);
@@ -0,0 +1,277 @@
+import type {
+  FastifySchema,
+  FastifySchemaCompiler,
+  FastifyTypeProvider,
+} from 'fastify';
+import fp from 'fastify-plugin';
+import type { z, ZodType, ZodTypeAny, ZodTypeDef } from 'zod';
+import { ignoreOverride, zodToJsonSchema } from 'zod-to-json-schema';
+
+import { coerceQuery } from '../query.js';
+
+/**
+ * Infers request and reply types from Zod route schemas:
+ * `fastify.withTypeProvider<ZodTypeProvider>()`. Both sides use the parsed
+ * (output) type, so branded schemas give branded values.
+ */
+export interface ZodTypeProvider extends FastifyTypeProvider {
+  validator: NonNullable<this['schema']> extends ZodTypeAny
+    ? z.output<NonNullable<this['schema']>>
+    : unknown;
+  serializer: NonNullable<this['schema']> extends ZodTypeAny
+    ? z.output<NonNullable<this['schema']>>
+    : unknown;
+}
+
+const REQUEST_PARTS = ['params', 'querystring', 'body', 'headers'] as const;
+
+type ZodSchema = ZodType<unknown, ZodTypeDef, unknown>;
+
+// Zod has no slot for examples; they are kept per schema definition
+const examples = new WeakMap<ZodTypeDef, unknown>();
+
+// Converted response schemas, mapped back to the Zod schema they came from
+const zodSources = new WeakMap<object, ZodSchema>();
+
+// Shared schemas (see schemas.ts), converted to a $ref to their name
+const sharedNames = new Map<ZodTypeDef, string>();
+
+/**
+ * Makes a Zod schema convert to a `$ref` to a shared schema wherever it is
+ * used. schemas.ts calls this when it registers the schema under that name.
+ * @param schema - Any Zod schema
+ * @param name - The shared schema's `$id`
+ */
+export function setSharedName(schema: ZodSchema, name: string): void {
+  sharedNames.set(schema._def, name);
+}
+
+// `.describe()` copies the definition: a route can describe a shared
+// response without inlining it
+const sharedNameOf = (def: ZodTypeDef): string | undefined => {
+  const exact = sharedNames.get(def);
+  if (exact !== undefined || def.description === undefined) return exact;
+
+  const fields = Object.entries(def).filter(([key]) => key !== 'description');
+  for (const [shared, name] of sharedNames) {
+    const sharedFields = new Map(Object.entries(shared));
+    sharedFields.delete('description');
+    if (
+      sharedFields.size === fields.length &&
+      fields.every(([key, value]) => sharedFields.get(key) === value)
+    ) {
+      return name;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Attaches an OpenAPI example to a Zod schema
+ * @param schema - Any Zod schema
+ * @param example - A value the schema accepts
+ * @returns The same schema
+ */
+export function withExample<T extends ZodTypeAny>(
+  schema: T,
+  example: z.input<T>
+): T {
+  examples.set((schema as ZodSchema)._def, example);
+  return schema;
+}
+
+/**
+ * Checks for a Zod schema without `instanceof`, which fails across copies
+ * of zod (packages/types brings its own)
+ * @param schema - Any route schema
+ * @returns True for Zod schemas
+ */
+export function isZodSchema(schema: unknown): schema is ZodSchema {
+  return (
+    typeof schema === 'object' &&
+    schema !== null &&
+    '_def' in schema &&
+    'safeParse' in schema &&
+    typeof schema.safeParse === 'function'
+  );
+}
+
+// OpenAPI 3.0 writes `.positive()` as `exclusiveMinimum: true`, which the
+// serializer's JSON Schema validator rejects; for integers the inclusive
+// bound is exact
+const exactIntegerBounds = <T extends object>(jsonSchema: T): T => {
+  const { type, minimum, maximum, exclusiveMinimum, exclusiveMaximum } =
+    jsonSchema as Partial<Record<string, unknown>>;
+  if (type !== 'integer') return jsonSchema;
+
+  const bounded: Partial<Record<string, unknown>> = { ...jsonSchema };
+  if (exclusiveMinimum === true && typeof minimum === 'number') {
+    bounded['minimum'] = Math.floor(minimum) + 1;
+    delete bounded['exclusiveMinimum'];
+  }
+  if (exclusiveMaximum === true && typeof maximum === 'number') {
+    bounded['maximum'] = Math.ceil(maximum) - 1;
+    delete bounded['exclusiveMaximum'];
+  }
+  return bounded as T;
+};
+
+/**
+ * Converts a Zod schema to the JSON Schema used for serialization and the
+ * OpenAPI document. Transforms (e.g. branded types) are described by their
+ * input, which is also the wire format of a branded value. Shared schemas
+ * become a `$ref` to their name.
+ * @param schema - A Zod schema
+ * @param options - Options
+ * @param options.inline - Convert the schema itself even if it is shared
+ * (used to register it)
+ * @returns The OpenAPI 3 flavoured JSON Schema
+ */
+export function toJsonSchema(
+  schema: ZodSchema,
+  { inline = false }: { inline?: boolean } = {}
+): Record<string, unknown> {
+  const root = schema._def;
+  const rootName = inline ? undefined : sharedNameOf(root);
+  if (rootName !== undefined) {
+    return {
+      $ref: `${rootName}#`,
+      ...(root.description !== undefined && { description: root.description }),
+    };
+  }
+
+  return zodToJsonSchema(schema, {
+    target: 'openApi3',
+    $refStrategy: 'none',
+    override: def => {
+      const name = def === root ? undefined : sharedNames.get(def);
+      return name === undefined ? ignoreOverride : { $ref: `${name}#` };
+    },
+    // Zod strips unknown keys; only .strict() objects reject them
+    removeAdditionalStrategy: 'strict',
+    allowedAdditionalProperties: undefined,
+    postProcess: (jsonSchema, def) => {
+      if (jsonSchema === undefined) return jsonSchema;
+      const bounded = exactIntegerBounds(jsonSchema);
+      return examples.has(def)
+        ? { ...bounded, example: examples.get(def) }
+        : bounded;
+    },
+  }) as Record<string, unknown>;
+}
+
+/**
+ * Finds the Zod schema a route response schema was converted from
+ * @param schema - A response schema as found on `routeOptions.schema`
+ * @returns The original Zod schema, or undefined for JSON Schema
+ */
+export function getZodSource(schema: unknown): ZodSchema | undefined {
+  return typeof schema === 'object' && schema !== null
+    ? zodSources.get(schema)
+    : undefined;
+}
+
+/**
+ * Validates a request part with its Zod schema. Query strings are coerced to
+ * the schema first (numbers, booleans, dates, arrays, bracket notation).
+ * Failures are returned as the ZodError itself, which the error handler maps
+ * to field-level violations.
+ */
+export const zodValidatorCompiler: FastifySchemaCompiler<unknown> = ({
+  schema,
+  method,
+  url,
+  httpPart,
+}) => {
+  if (!isZodSchema(schema)) {
+    throw new Error(
+      `${method} ${url} mixes Zod and JSON Schema: ${String(httpPart)} must be a Zod schema too`
+    );
+  }
+
+  // Query values arrive as strings; see query.ts
+  const prepare =
+    httpPart === 'querystring'
+      ? (data: unknown): unknown => coerceQuery(schema, data)
+      : (data: unknown): unknown => data;
+
+  return data => {
+    try {
+      const result = schema.safeParse(prepare(data));
+      return result.success ? { value: result.data } : { error: result.error };
+    } catch (error) {
+      // Branded constructors throw BrandValidationError from a transform
+      if (error instanceof Error) return { error };
+      throw error;
+    }
+  };
+};
+
+/**
+ * Swagger transform: replaces the Zod request schemas of a route with their
+ * JSON Schema. Response schemas are already converted when the route is
+ * added.
+ * @param route - The route schema and URL as passed by @fastify/swagger
+ * @param route.schema - The route schema
+ * @param route.url - The route URL
+ * @returns The schema and URL to document
+ */
+export function transformZodSchema({
+  schema,
+  url,
+}: {
+  schema: FastifySchema;
+  url: string;
+}): { schema: FastifySchema; url: string } {
+  const converted: Record<string, unknown> = { ...schema };
+  for (const part of REQUEST_PARTS) {
+    // eslint-disable-next-line security/detect-object-injection
+    const value = schema[part];
+    if (isZodSchema(value)) {
+      // eslint-disable-next-line security/detect-object-injection
+      converted[part] = toJsonSchema(value);
+    }
+  }
+  return { schema: converted, url };
+}
+
+/**
+ * Lets routes declare Zod schemas for params, querystring, body, headers and
+ * responses. Request parts are validated by Zod (so refinements, transforms
+ * and branded types apply); responses are converted to JSON Schema and
+ * serialized by Fastify as usual, which drops undeclared fields.
+ */
+export default fp(
+  async fastify => {
+    fastify.addHook('onRoute', routeOptions => {
+      const { schema } = routeOptions;
+      if (schema === undefined) return;
+
+      if (
+        routeOptions.validatorCompiler === undefined &&
+        // eslint-disable-next-line security/detect-object-injection
+        REQUEST_PARTS.some(part => isZodSchema(schema[part]))
+      ) {
+        routeOptions.validatorCompiler = zodValidatorCompiler;
+      }
+
+      const { response } = schema;
+      if (typeof response === 'object' && response !== null) {
+        routeOptions.schema = {
+          ...schema,
+          response: Object.fromEntries(
+            Object.entries(response).map(([status, value]) => {
+              if (!isZodSchema(value)) return [status, value];
+              const converted = toJsonSchema(value);
+              zodSources.set(converted, value);
+              return [status, converted];
+            })
+          ),
+        };
+      }
+    });
+  },
+  {
+    name: 'zod',
+  }
+);
@@ -0,0 +1,252 @@
+/**
+ * Query string coercion for Zod schemas.
+ *
+ * Query values always arrive as strings (or arrays of strings for repeated
+ * keys), so a schema such as `z.object({ page: z.number() })` would reject
+ * `?page=2`. `coerceQuery` walks the target schema and converts each value
+ * to what the schema expects before it is parsed. Values that cannot be
+ * converted are left untouched: Zod then reports them as ordinary
+ * validation errors (`Expected number, received string`).
+ */
+
+/** The part of a Zod schema definition coercion looks at */
+interface SchemaDef {
+  typeName?: string;
+  innerType?: unknown;
+  schema?: unknown;
+  type?: unknown;
+  in?: unknown;
+  valueType?: unknown;
+  value?: unknown;
+  options?: unknown;
+  getter?: () => unknown;
+  shape?: () => Record<string, unknown>;
+}
+
+// Bracket segments that would reach Object.prototype
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const TRUE_VALUES = new Set(['true', '1']);
+const FALSE_VALUES = new Set(['false', '0']);
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? (value as unknown[]) : [value];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Duck-typed like isZodSchema: packages/types brings its own copy of zod
+const defOf = (schema: unknown): SchemaDef =>
+  isRecord(schema) && isRecord(schema['_def'])
+    ? (schema['_def'] as SchemaDef)
+    : {};
+
+const accepts = (schema: unknown, value: unknown): boolean =>
+  isRecord(schema) &&
+  typeof schema['safeParse'] === 'function' &&
+  (schema['safeParse'] as (data: unknown) => { success: boolean })(value)
+    .success;
+
+/**
+ * Splits a bracketed key: `filter[status]` gives `['filter', 'status']`,
+ * `ids[]` gives `['ids', '']` (append)
+ * @param key - A query string key
+ * @returns The path segments, or undefined for a plain key
+ */
+function keyPath(key: string): string[] | undefined {
+  const open = key.indexOf('[');
+  if (open <= 0 || !key.endsWith(']')) return undefined;
+  return [key.slice(0, open), ...key.slice(open + 1, -1).split('][')];
+}
+
+/**
+ * Expands bracket notation into nested objects and arrays:
+ * `?filter[status]=open&ids[]=1&ids[]=2` gives
+ * `{ filter: { status: 'open' }, ids: ['1', '2'] }`. Plain keys are copied
+ * as they are.
+ * @param query - The query object as parsed by Fastify
+ * @returns A new object with bracketed keys nested
+ */
+export function expandBrackets(
+  query: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    const path = keyPath(key) ?? [key];
+    if (path.some(segment => FORBIDDEN_SEGMENTS.has(segment))) continue;
+
+    // `ids[]=1` appends to the array named by the previous segment
+    const append = path.length > 1 && path[path.length - 1] === '';
+    const segments = append ? path.slice(0, -1) : path;
+
+    let target = result;
+    for (const segment of segments.slice(0, -1)) {
+      // eslint-disable-next-line security/detect-object-injection
+      const next = target[segment];
+      const child: Record<string, unknown> = isRecord(next) ? next : {};
+      // eslint-disable-next-line security/detect-object-injection
+      target[segment] = child;
+      target = child;
+    }
+
+    const leaf = segments[segments.length - 1] ?? key;
+    // eslint-disable-next-line security/detect-object-injection
+    const existing = target[leaf];
+    // eslint-disable-next-line security/detect-object-injection
+    target[leaf] = append
+      ? [
+          ...(existing === undefined ? [] : asArray(existing)),
+          ...asArray(value),
+        ]
+      : value;
+  }
+
+  return result;
+}
+
+const toNumber = (value: unknown): unknown => {
+  if (typeof value !== 'string' || value.trim() === '') return value;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : value;
+};
+
+const toBigInt = (value: unknown): unknown => {
+  if (typeof value !== 'string' || value.trim() === '') return value;
+  try {
+    return BigInt(value);
+  } catch {
+    return value;
+  }
+};
+
+const toBoolean = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.toLowerCase();
+  if (TRUE_VALUES.has(normalized)) return true;
+  if (FALSE_VALUES.has(normalized)) return false;
+  return value;
+};
+
+const toDate = (value: unknown): unknown => {
+  if (typeof value !== 'string' || value.trim() === '') return value;
+  // Digits only: milliseconds since the epoch
+  const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+  return Number.isNaN(date.getTime()) ? value : date;
+};
+
+// `?status=a&status=b`, `?status=a,b` and `?status[0]=a` all give an array
+const toArray = (value: unknown): unknown => {
+  if (typeof value === 'string') return value === '' ? [] : value.split(',');
+  if (Array.isArray(value)) {
+    return asArray(value).flatMap(item =>
+      typeof item === 'string' ? item.split(',') : [item]
+    );
+  }
+  if (isRecord(value)) {
+    return Object.entries(value)
+      .filter(([index]) => /^\d+$/.test(index))
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([, item]) => item);
+  }
+  return value;
+};
+
+/**
+ * Converts query values to the types a Zod schema expects
+ * @param schema - The Zod schema of the value
+ * @param value - The raw value: a string, an array of strings or an object
+ * @returns The coerced value; unconvertible values are returned unchanged
+ */
+export function coerceQueryValue(schema: unknown, value: unknown): unknown {
+  const def = defOf(schema);
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+    case 'ZodNullable':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return value === undefined
+        ? value
+        : coerceQueryValue(def.innerType, value);
+    case 'ZodBranded':
+      return coerceQueryValue(def.type, value);
+    case 'ZodEffects':
+      return coerceQueryValue(def.schema, value);
+    case 'ZodPipeline':
+      return coerceQueryValue(def.in, value);
+    case 'ZodLazy':
+      return coerceQueryValue(def.getter?.(), value);
+    case 'ZodNumber':
+      return toNumber(value);
+    case 'ZodBigInt':
+      return toBigInt(value);
+    case 'ZodBoolean':
+      return toBoolean(value);
+    case 'ZodDate':
+      return toDate(value);
+    case 'ZodLiteral':
+      if (typeof def.value === 'number') return toNumber(value);
+      if (typeof def.value === 'boolean') return toBoolean(value);
+      return value;
+    case 'ZodArray': {
+      const items = toArray(value);
+      return Array.isArray(items)
+        ? asArray(items).map(item => coerceQueryValue(def.type, item))
+        : items;
+    }
+    case 'ZodObject':
+      return isRecord(value) ? coerceObject(def.shape?.() ?? {}, value) : value;
+    case 'ZodRecord':
+      return isRecord(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+              key,
+              coerceQueryValue(def.valueType, item),
+            ])
+          )
+        : value;
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion': {
+      // The first option the coerced value satisfies, e.g. number | 'all'
+      const options = Array.isArray(def.options) ? asArray(def.options) : [];
+      for (const option of options) {
+        const coerced = coerceQueryValue(option, value);
+        if (accepts(option, coerced)) return coerced;
+      }
+      return value;
+    }
+    default:
+      return value;
+  }
+}
+
+function coerceObject(
+  shape: Record<string, unknown>,
+  value: Record<string, unknown>
+): Record<string, unknown> {
+  const shapeEntries = new Map(Object.entries(shape));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      const fieldSchema = shapeEntries.get(key);
+      return [
+        key,
+        fieldSchema === undefined ? item : coerceQueryValue(fieldSchema, item),
+      ];
+    })
+  );
+}
+
+/**
+ * Prepares a parsed query string for its Zod schema: expands bracket
+ * notation, then coerces every value the schema describes
+ * @param schema - The route's querystring Zod schema
+ * @param query - The query object as parsed by Fastify
+ * @returns The value to parse with the schema
+ */
+export function coerceQuery(schema: unknown, query: unknown): unknown {
+  return isRecord(query)
+    ? coerceQueryValue(schema, expandBrackets(query))
+    : query;
+}
@@ -0,0 +1,75 @@
+import type {
+  ContextConfigDefault,
+  FastifyPluginAsync,
+  FastifySchema,
+  RawReplyDefaultExpression,
+  RawRequestDefaultExpression,
+  RawServerDefault,
+  RouteOptions,
+} from 'fastify';
+
+import type { ZodTypeProvider } from './plugins/zod.js';
+
+/** Payload type of each declared status, as `reply.code(status).send()` takes it */
+export type RouteReplies<Schema extends FastifySchema> =
+  Schema['response'] extends object
+    ? {
+        [Status in keyof Schema['response']]: (ZodTypeProvider & {
+          schema: Schema['response'][Status];
+        })['serializer'];
+      }
+    : unknown;
+
+/**
+ * A route typed from its Zod schema: request parts are the parsed (branded)
+ * output, `reply.code()` only takes the declared statuses and `reply.send()`
+ * takes the payload of the chosen status.
+ */
+export type RouteDefinition<Schema extends FastifySchema> = RouteOptions<
+  RawServerDefault,
+  RawRequestDefaultExpression,
+  RawReplyDefaultExpression,
+  { Reply: RouteReplies<Schema> },
+  ContextConfigDefault,
+  Schema,
+  ZodTypeProvider
+> & { schema: Schema };
+
+/** A plugin registering one route; the default export of a route file */
+export type DefinedRoute<Schema extends FastifySchema> = FastifyPluginAsync & {
+  readonly route: RouteDefinition<Schema>;
+};
+
+/**
+ * Defines a route with Zod schemas. The result is a plugin, so a file under
+ * routes/ can `export default defineRoute({ ... })` and autoload registers it
+ * under the directory prefix.
+ *
+ * @example
+ * ```typescript
+ * export default defineRoute({
+ *   method: 'GET',
+ *   url: '/users/:userId',
+ *   schema: {
+ *     params: z.object({ userId: ZodBrandedSchemas.UserId }),
+ *     response: { 200: UserSchema, ...errorResponses(UserNotFound) },
+ *   },
+ *   handler: async (request, reply) => {
+ *     const user = await users.find(request.params.userId); // UserId
+ *     if (!user) throw new UserNotFound();
+ *     return reply.code(200).send(user); // checked against UserSchema
+ *   },
+ * });
+ * ```
+ * @param definition - Route options with Zod schemas
+ * @returns A plugin registering the route, with the definition as `route`
+ */
+export function defineRoute<const Schema extends FastifySchema>(
+  definition: RouteDefinition<Schema>
+): DefinedRoute<Schema> {
+  const plugin: FastifyPluginAsync = fastify => {
+    fastify.withTypeProvider<ZodTypeProvider>().route(definition);
+    return Promise.resolve();
+  };
+  return Object.assign(plugin, { route: definition });
+}
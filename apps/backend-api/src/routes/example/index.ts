@@ -1,34 +1,18 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 
-// Response schemas
-const ExampleResponseSchema = z.string().describe('Example response message');
+import { InternalError } from '../../errors.js';
+import { errorResponses } from '../../plugins/error-handler.js';
+import { withExample, type ZodTypeProvider } from '../../plugins/zod.js';
 
-// Error response schemas for OpenAPI
-const ErrorResponseSchema = {
-  type: 'object',
-  properties: {
-    error: {
-      type: 'string',
-      description: 'Error type',
-      example: 'Bad Request',
-    },
-    message: {
-      type: 'string',
-      description: 'Error message',
-      example: 'Invalid request parameters',
-    },
-    statusCode: {
-      type: 'number',
-      description: 'HTTP status code',
-      example: 400,
-    },
-  },
-  required: ['error', 'message', 'statusCode'],
-} as const;
+// Response schemas
+const ExampleResponseSchema = withExample(
+  z.string().describe('Example response message'),
+  'this is an example'
+);
 
 const example: FastifyPluginAsync = async (fastify, _opts): Promise<void> => {
-  fastify.get(
+  fastify.withTypeProvider<ZodTypeProvider>().get(
     '/',
     {
       schema: {
@@ -36,15 +20,8 @@ const example: FastifyPluginAsync = async (fastify, _opts): Promise<void> => {
         summary: 'Get example message',
         description: 'Returns an example string response',
         response: {
-          200: {
-            description: 'Successful response',
-            type: 'string',
-            example: 'this is an example',
-          },
-          500: {
-            description: 'Internal Server Error',
-            ...ErrorResponseSchema,
-          },
+          200: ExampleResponseSchema,
+          ...errorResponses(InternalError),
         },
       },
     },
@@ -52,11 +29,6 @@ const example: FastifyPluginAsync = async (fastify, _opts): Promise<void> => {
     async (_request, reply) => {
       const response = 'this is an example';
 
-      // Validate response against schema in development
-      if (fastify.config?.NODE_ENV === 'development') {
-        ExampleResponseSchema.parse(response);
-      }
-
       // Ensure JSON response for consistency with OpenAPI spec
       reply.type('application/json');
       reply.send(JSON.stringify(response));
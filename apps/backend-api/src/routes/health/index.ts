@@ -0,0 +1,73 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+
+import { InternalError } from '../../errors.js';
+import { errorResponses } from '../../plugins/error-handler.js';
+import { withExample, type ZodTypeProvider } from '../../plugins/zod.js';
+import { HealthReport } from '../../schemas.js';
+
+// Response schemas
+const LivenessResponseSchema = z.object({
+  status: withExample(
+    z.literal('ok').describe('Always ok while the process can serve requests'),
+    'ok'
+  ),
+});
+
+type HealthResponse = z.infer<typeof HealthReport>;
+
+const health: FastifyPluginAsync = async (fastify, _opts): Promise<void> => {
+  fastify.withTypeProvider<ZodTypeProvider>().get(
+    '/live',
+    {
+      schema: {
+        tags: ['Health'],
+        summary: 'Liveness probe',
+        description:
+          'Reports that the process is running; does not run dependency checks',
+        response: {
+          200: LivenessResponseSchema.describe('The process is alive'),
+          ...errorResponses(InternalError),
+        },
+      },
+    },
+    async () => ({ status: 'ok' as const })
+  );
+
+  fastify.withTypeProvider<ZodTypeProvider>().get(
+    '/ready',
+    {
+      schema: {
+        tags: ['Health'],
+        summary: 'Readiness probe',
+        description:
+          'Runs the registered health checks and reports whether the service can take traffic',
+        response: {
+          200: HealthReport.describe('Ready to take traffic'),
+          503: HealthReport.describe(
+            'Not ready: a critical check fails or shutdown started'
+          ),
+          ...errorResponses(InternalError),
+        },
+      },
+    },
+    async (_request, reply) => {
+      if (fastify.isShuttingDown()) {
+        return reply.code(503).send({ status: 'shutting_down' });
+      }
+
+      const report = await fastify.health.check();
+      const response: HealthResponse = {
+        status: report.status,
+        checkedAt: report.checkedAt,
+        ...(fastify.environment.exposeHealthDetails && {
+          checks: report.checks,
+        }),
+      };
+
+      return reply.code(report.status === 'error' ? 503 : 200).send(response);
+    }
+  );
+};
+
+export default health;
@@ -0,0 +1,112 @@
+/**
+ * Shared schema registry. Schemas used across routes (entity IDs, page
+ * envelopes, reports) are registered once by name: the OpenAPI document lists
+ * them under `components/schemas`, routes reference them with `$ref` and the
+ * generated SDK gets a named type for each.
+ *
+ * A registered Zod schema is used as is in route schemas; every place it
+ * appears becomes a reference. A registered JSON Schema is referenced with
+ * the `{ $ref }` object `defineSchema` returns. Register list responses per
+ * item: `defineSchema('OrderPage', createPaginatedResponseSchema(Order))`.
+ *
+ * Define shared schemas in this module: the schemas plugin registers them
+ * before the routes load. Errors have their own catalog (errors.ts).
+ */
+
+import { ZodBrandedSchemas } from '@ai-fastify-template/types';
+import { z, type ZodType, type ZodTypeDef } from 'zod';
+
+import { isZodSchema, setSharedName, withExample } from './plugins/zod.js';
+
+type ZodSchema = ZodType<unknown, ZodTypeDef, unknown>;
+
+/** A reference to a shared JSON Schema, to use in route schemas */
+export interface SchemaRef {
+  $ref: `${string}#`;
+}
+
+const registry = new Map<string, ZodSchema | Record<string, unknown>>();
+
+/**
+ * Registers a shared schema
+ * @param name - PascalCase name, the component name in the OpenAPI document
+ * @param schema - A Zod schema or a JSON Schema
+ * @returns The Zod schema itself, or a `$ref` to the JSON Schema
+ */
+export function defineSchema<S extends ZodSchema>(name: string, schema: S): S;
+export function defineSchema(
+  name: string,
+  schema: Record<string, unknown>
+): SchemaRef;
+export function defineSchema(
+  name: string,
+  schema: ZodSchema | Record<string, unknown>
+): ZodSchema | SchemaRef {
+  if (!/^[A-Z][A-Za-z0-9]*$/.test(name)) {
+    throw new Error(`Schema name ${name} must be PascalCase`);
+  }
+  if (registry.has(name)) {
+    throw new Error(`Schema ${name} is already defined`);
+  }
+
+  registry.set(name, schema);
+  if (!isZodSchema(schema)) return { $ref: `${name}#` };
+
+  setSharedName(schema, name);
+  return schema;
+}
+
+/**
+ * Lists the shared schemas
+ * @returns Every schema defined so far by name, in definition order
+ */
+export function sharedSchemas(): [
+  string,
+  ZodSchema | Record<string, unknown>,
+][] {
+  return [...registry];
+}
+
+// Entity IDs: every branded ID is a named string type
+for (const [name, schema] of Object.entries(ZodBrandedSchemas)) {
+  defineSchema(name, schema);
+}
+
+export const HealthCheckResult = defineSchema(
+  'HealthCheckResult',
+  z
+    .object({
+      status: z.enum(['ok', 'error']),
+      critical: z.boolean(),
+      durationMs: z.number(),
+      error: z.string().optional(),
+    })
+    .describe('Outcome of one health check')
+);
+
+export const HealthReport = defineSchema(
+  'HealthReport',
+  z
+    .object({
+      status: withExample(
+        z
+          .enum(['ok', 'degraded', 'error', 'shutting_down'])
+          .describe(
+            'ok: all checks pass; degraded: only non-critical checks fail; error: a critical check fails; shutting_down: draining before exit'
+          ),
+        'ok'
+      ),
+      checkedAt: z
+        .string()
+        .datetime()
+        .optional()
+        .describe('When the checks last ran (results are cached briefly)'),
+      checks: z
+        .record(HealthCheckResult)
+        .optional()
+        .describe(
+          'Per-check breakdown; only included where the environment exposes health details'
+        ),
+    })
+    .describe('Result of the readiness checks')
+);
@@ -1,38 +1,162 @@
-import { getPort, getHost, isDevelopment } from '@ai-fastify-template/config';
-import Fastify from 'fastify';
+import cluster from 'node:cluster';
+import { chmod } from 'node:fs/promises';
+
+import {
+  ConfigValidationError,
+  getListenTarget,
+  type ListenTarget,
+} from '@ai-fastify-template/config';
+import Fastify, { type FastifyListenOptions } from 'fastify';
+import fp from 'fastify-plugin';
+import { pino } from 'pino';
 
 import app from './app.js';
+import { createClusterSupervisor, resolveWorkerCount } from './cluster.js';
+import { loadAppConfig, type LoadedAppConfig } from './config.js';
+import { createLoggerOptions } from './logger.js';
+import { createTlsServerOptions } from './plugins/tls.js';
+import { removeStaleSocket } from './socket.js';
+
+// Load configuration once; the same values are handed to the env plugin
+let loaded: LoadedAppConfig;
+try {
+  loaded = loadAppConfig();
+} catch (error) {
+  if (error instanceof ConfigValidationError) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
+
+const { config } = loaded;
+
+// SIGTERM/SIGINT drain in-flight requests and close plugins before exiting.
+// A second signal falls through to the default handler and exits at once.
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+// Fastify passes the options through to `net.Server#listen`, which accepts
+// an inherited file descriptor; its types only lack the `fd` field
+const toListenOptions = (target: ListenTarget): FastifyListenOptions => {
+  switch (target.kind) {
+    case 'tcp':
+      return { host: target.host, port: target.port };
+    case 'socket':
+      return { path: target.path };
+    case 'fd':
+      return { fd: target.fd } as FastifyListenOptions;
+  }
+};
+
+const describeListenTarget = (target: ListenTarget): string => {
+  const scheme = config.TLS_CERT_FILE === undefined ? 'http' : 'https';
+  switch (target.kind) {
+    case 'tcp':
+      return `${scheme}://${target.host}:${String(target.port)}`;
+    case 'socket':
+      return `${scheme}+unix://${target.path}`;
+    case 'fd':
+      return `inherited socket fd ${String(target.fd)} (${scheme})`;
+  }
+};
+
+const startServer = async (): Promise<void> => {
+  // HTTPS or HTTP/2 when TLS_CERT_FILE/TLS_KEY_FILE are set
+  const server = Fastify({
+    logger: createLoggerOptions(config),
+    ...createTlsServerOptions(config),
+  });
+
+  // Registered without encapsulation so the app's decorators (e.g.
+  // `shutdown`) are available here. SIGHUP re-reads the configuration and
+  // applies reloadable fields.
+  server.register(fp(app), { config: loaded, reloadSignal: 'SIGHUP' });
+
+  // Handled from the start, so a signal while the app boots or binds still
+  // closes it gracefully; `shutdown` exists once the plugins have loaded
+  let stopping = false;
+  const stop = async (signal: NodeJS.Signals): Promise<never> => {
+    stopping = true;
+    try {
+      await server.ready();
+      const result = await server.shutdown(signal);
+      process.exit(result.status === 'completed' ? 0 : 1);
+    } catch (error) {
+      server.log.error({ error }, 'Graceful shutdown failed');
+      process.exit(1);
+    }
+  };
+  for (const signal of SHUTDOWN_SIGNALS) {
+    process.once(signal, () => void stop(signal));
+  }
 
-const isDev: boolean = isDevelopment();
-const server = Fastify({
-  logger: isDev
-    ? {
-        level: 'info',
-        transport: {
-          target: 'pino-pretty',
-        },
-      }
-    : {
-        level: 'info',
-      },
-});
-
-server.register(app);
-
-const start = async (): Promise<void> => {
   try {
-    const port: number = getPort();
-    const host: string = getHost();
+    // TCP, a Unix socket (LISTEN_SOCKET) or a socket inherited from systemd
+    // (LISTEN_FDS)
+    const target = getListenTarget(config);
 
-    await server.listen({ port, host });
-    server.log.info(`Server listening on http://${host}:${String(port)}`);
+    // A socket file left by a crash would fail the listen with EADDRINUSE
+    if (target.kind === 'socket' && (await removeStaleSocket(target.path))) {
+      server.log.warn(`Removed stale socket ${target.path}`);
+    }
+    await server.listen(toListenOptions(target));
+    if (target.kind === 'socket' && target.mode !== undefined) {
+      await chmod(target.path, target.mode);
+    }
+    server.log.info(`Server listening on ${describeListenTarget(target)}`);
   } catch (err) {
+    // Interrupted by a shutdown signal, whose handler exits
+    if (stopping) return;
     server.log.error(err);
     throw new Error('Failed to start server');
   }
 };
 
-start().catch((error: unknown) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+// Cluster mode (WORKERS=auto|N): the primary only supervises; every worker
+// re-runs this file and starts its own server on the shared port.
+// SIGUSR2 replaces the workers one by one without dropping capacity; SIGHUP
+// is passed on to the workers to reload their configuration.
+const startPrimary = (workers: number): void => {
+  const log = pino(createLoggerOptions(config));
+  const supervisor = createClusterSupervisor({
+    workers,
+    restartDelay: config.WORKER_RESTART_DELAY,
+    maxRestartDelay: config.WORKER_RESTART_MAX_DELAY,
+    shutdownTimeout: config.SHUTDOWN_TIMEOUT,
+    fork: () => cluster.fork(),
+    log,
+  });
+
+  supervisor.start();
+
+  // Each worker re-reads its configuration; left unhandled, SIGHUP would
+  // terminate the primary and with it the cluster
+  process.on('SIGHUP', () => {
+    supervisor.forward('SIGHUP');
+  });
+
+  process.on('SIGUSR2', () => {
+    supervisor.rollingRestart().catch((error: unknown) => {
+      log.error({ error }, 'Rolling restart failed');
+    });
+  });
+
+  for (const signal of SHUTDOWN_SIGNALS) {
+    process.once(signal, () => {
+      void supervisor.shutdown(signal).then(status => {
+        process.exit(status === 'completed' ? 0 : 1);
+      });
+    });
+  }
+};
+
+const workers = resolveWorkerCount(config.WORKERS);
+
+if (workers !== undefined && cluster.isPrimary) {
+  startPrimary(workers);
+} else {
+  startServer().catch((error: unknown) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,36 @@
+import { lstat, unlink } from 'node:fs/promises';
+import { connect } from 'node:net';
+
+// Resolves true when a server accepts connections on the socket
+const isListening = (path: string): Promise<boolean> =>
+  new Promise(resolve => {
+    const probe = connect(path);
+    probe.once('connect', () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once('error', () => {
+      resolve(false);
+    });
+  });
+
+/**
+ * Removes a Unix socket file left behind by a process that did not shut down
+ * cleanly, which would otherwise make `listen` fail with EADDRINUSE. Regular
+ * files and sockets a running server still accepts connections on are left
+ * alone, so that error is still reported for them.
+ * @param path - The LISTEN_SOCKET path
+ * @returns True when a stale socket was removed
+ */
+export async function removeStaleSocket(path: string): Promise<boolean> {
+  try {
+    if (!(await lstat(path)).isSocket()) return false;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+  if (await isListening(path)) return false;
+
+  await unlink(path);
+  return true;
+}
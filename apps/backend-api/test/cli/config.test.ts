@@ -0,0 +1,31 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { runConfigCli } from '@ai-fastify-template/config';
+import { describe, it, expect } from 'vitest';
+
+import { appConfig, ENV_EXAMPLE_HEADER } from '../../src/config.js';
+import { createSafeConfig } from '../../src/plugins/env.js';
+
+const appDir = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+describe('Config CLI', () => {
+  it('should keep .env.example in sync with the config schema', () => {
+    const err: string[] = [];
+
+    const code = runConfigCli(
+      appConfig,
+      ['example', '--output', '.env.example', '--check'],
+      {
+        redact: createSafeConfig,
+        exampleHeader: ENV_EXAMPLE_HEADER,
+        cwd: appDir,
+        stdout: () => undefined,
+        stderr: text => err.push(text),
+      }
+    );
+
+    expect(err).toEqual([]);
+    expect(code).toBe(0);
+  });
+});
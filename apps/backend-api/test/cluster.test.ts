@@ -0,0 +1,235 @@
+import { EventEmitter } from 'node:events';
+import { availableParallelism } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import {
+  createClusterSupervisor,
+  resolveWorkerCount,
+  type ClusterSupervisor,
+} from '../src/cluster.js';
+import { loadAppConfig } from '../src/config.js';
+
+class FakeWorker extends EventEmitter {
+  readonly signals: string[] = [];
+  readonly process = {
+    kill: (signal: NodeJS.Signals = 'SIGTERM') => {
+      this.signals.push(signal);
+      return true;
+    },
+  };
+
+  constructor(readonly id: number) {
+    super();
+  }
+
+  listen(): void {
+    this.emit('listening');
+  }
+
+  exit(code: number | null = 0, signal: string | null = null): void {
+    this.emit('exit', code, signal);
+  }
+}
+
+describe('Cluster mode', () => {
+  describe('WORKERS setting', () => {
+    it('should run a single process when unset', () => {
+      const { config } = loadAppConfig({ env: {} });
+
+      expect(config.WORKERS).toBeUndefined();
+      expect(resolveWorkerCount(config.WORKERS)).toBeUndefined();
+    });
+
+    it('should resolve auto to one worker per CPU', () => {
+      expect(resolveWorkerCount('auto')).toBe(availableParallelism());
+      expect(resolveWorkerCount('3')).toBe(3);
+    });
+
+    it('should reject invalid worker counts', () => {
+      for (const value of ['0', '-2', 'all', '']) {
+        expect(() => loadAppConfig({ env: { WORKERS: value } })).toThrow(
+          'WORKERS must be "auto" or a positive number of worker processes'
+        );
+      }
+    });
+
+    it('should reject workers under socket activation', () => {
+      const env = { LISTEN_FDS: '1', LISTEN_PID: String(process.pid) };
+
+      expect(() => loadAppConfig({ env: { ...env, WORKERS: '2' } })).toThrow(
+        'WORKERS cannot be combined with LISTEN_FDS; run a single process under socket activation'
+      );
+      expect(loadAppConfig({ env }).config.LISTEN_FDS).toBe(1);
+    });
+  });
+
+  describe('supervisor', () => {
+    let forked: FakeWorker[];
+    let supervisor: ClusterSupervisor;
+    const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      forked = [];
+      supervisor = createClusterSupervisor({
+        workers: 2,
+        restartDelay: 100,
+        maxRestartDelay: 1_000,
+        shutdownTimeout: 1_000,
+        fork: () => {
+          const worker = new FakeWorker(forked.length + 1);
+          forked.push(worker);
+          return worker;
+        },
+        log,
+      });
+      supervisor.start();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.clearAllMocks();
+    });
+
+    const worker = (index: number): FakeWorker => {
+      const found = forked.at(index);
+      if (!found) throw new Error(`No worker at ${String(index)}`);
+      return found;
+    };
+
+    it('should fork the configured number of workers', () => {
+      expect(forked).toHaveLength(2);
+      expect(supervisor.size).toBe(2);
+    });
+
+    it('should restart crashed workers with exponential backoff', () => {
+      worker(0).exit(1);
+      expect(supervisor.size).toBe(1);
+
+      vi.advanceTimersByTime(99);
+      expect(forked).toHaveLength(2);
+      vi.advanceTimersByTime(1);
+      expect(forked).toHaveLength(3);
+
+      worker(2).exit(1);
+      vi.advanceTimersByTime(199);
+      expect(forked).toHaveLength(3);
+      vi.advanceTimersByTime(1);
+      expect(forked).toHaveLength(4);
+      expect(supervisor.size).toBe(2);
+      expect(log.error).toHaveBeenCalledWith(
+        expect.objectContaining({ worker: 3, code: 1, attempt: 2 }),
+        'Worker exited unexpectedly; restarting'
+      );
+    });
+
+    it('should cap the backoff and reset it after a stable run', () => {
+      for (let i = 0; i < 6; i++) {
+        worker(-1).exit(1);
+        vi.advanceTimersByTime(1_000);
+      }
+      expect(forked).toHaveLength(8);
+
+      // Stable for longer than the maximum delay
+      vi.advanceTimersByTime(1_000);
+      worker(-1).exit(1);
+      vi.advanceTimersByTime(100);
+      expect(forked).toHaveLength(9);
+    });
+
+    it('should replace workers one at a time on a rolling restart', async () => {
+      const restart = supervisor.rollingRestart();
+
+      expect(forked).toHaveLength(3);
+      expect(worker(0).signals).toEqual([]);
+
+      worker(2).listen();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(worker(0).signals).toEqual(['SIGTERM']);
+      expect(forked).toHaveLength(3);
+
+      worker(0).exit(0);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(forked).toHaveLength(4);
+      expect(worker(1).signals).toEqual([]);
+
+      worker(3).listen();
+      await vi.advanceTimersByTimeAsync(0);
+      worker(1).exit(0);
+      await restart;
+
+      expect(supervisor.size).toBe(2);
+      // Retired workers are not restarted
+      vi.advanceTimersByTime(10_000);
+      expect(forked).toHaveLength(4);
+    });
+
+    it('should skip workers that crash during a rolling restart', async () => {
+      const restart = supervisor.rollingRestart();
+
+      worker(1).exit(1);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(forked).toHaveLength(4);
+
+      worker(2).listen();
+      await vi.advanceTimersByTimeAsync(0);
+      worker(0).exit(0);
+      await restart;
+
+      expect(forked).toHaveLength(4);
+      expect(worker(1).signals).toEqual([]);
+      expect(supervisor.size).toBe(2);
+    });
+
+    it('should abort a rolling restart when a replacement fails', async () => {
+      const restart = supervisor.rollingRestart();
+
+      worker(2).exit(1);
+      await restart;
+
+      expect(worker(0).signals).toEqual([]);
+      expect(supervisor.size).toBe(2);
+      vi.advanceTimersByTime(10_000);
+      expect(forked).toHaveLength(3);
+      expect(log.error).toHaveBeenCalledWith(
+        { worker: 3 },
+        'Replacement worker exited before listening; rolling restart aborted'
+      );
+    });
+
+    it('should forward shutdown to every worker as SIGTERM', async () => {
+      const shutdown = supervisor.shutdown('SIGINT');
+
+      expect(worker(0).signals).toEqual(['SIGTERM']);
+      expect(worker(1).signals).toEqual(['SIGTERM']);
+
+      worker(0).exit(0);
+      worker(1).exit(0);
+
+      await expect(shutdown).resolves.toBe('completed');
+      vi.advanceTimersByTime(10_000);
+      expect(forked).toHaveLength(2);
+    });
+
+    it('should forward a reload signal to running workers', () => {
+      worker(0).exit(1);
+      supervisor.forward('SIGHUP');
+
+      expect(worker(0).signals).toEqual([]);
+      expect(worker(1).signals).toEqual(['SIGHUP']);
+      // Reloading does not restart workers
+      expect(forked).toHaveLength(2);
+    });
+
+    it('should kill workers that outlive the shutdown timeout', async () => {
+      const shutdown = supervisor.shutdown('SIGTERM');
+      worker(0).exit(0);
+
+      await vi.advanceTimersByTimeAsync(6_000);
+
+      await expect(shutdown).resolves.toBe('timed-out');
+      expect(worker(1).signals).toEqual(['SIGTERM', 'SIGKILL']);
+    });
+  });
+});
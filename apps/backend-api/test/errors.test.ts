@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  AppError,
+  defineError,
+  errorCatalog,
+  InternalError,
+} from '../src/errors.js';
+
+const PaymentDeclined = defineError(
+  'PAYMENT_DECLINED',
+  402,
+  'The payment provider declined the charge'
+);
+
+describe('Error catalog', () => {
+  it('should produce throwable classes carrying the code and status', () => {
+    const error = new PaymentDeclined();
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'PAYMENT_DECLINED',
+      code: 'PAYMENT_DECLINED',
+      statusCode: 402,
+      message: 'The payment provider declined the charge',
+    });
+  });
+
+  it('should accept a detail and a cause', () => {
+    const cause = new Error('card expired');
+    const error = new PaymentDeclined('Card ending 4242 was declined', {
+      cause,
+    });
+
+    expect(error.message).toBe('Card ending 4242 was declined');
+    expect(error.cause).toBe(cause);
+  });
+
+  it('should expose the definition on the class', () => {
+    expect(PaymentDeclined.code).toBe('PAYMENT_DECLINED');
+    expect(PaymentDeclined.statusCode).toBe(402);
+    expect(PaymentDeclined.description).toBe(
+      'The payment provider declined the charge'
+    );
+  });
+
+  it('should list every definition in order', () => {
+    const codes = errorCatalog().map(({ code }) => code);
+
+    expect(codes).toContain(InternalError.code);
+    expect(codes.at(-1)).toBe('PAYMENT_DECLINED');
+  });
+
+  it('should reject duplicate codes', () => {
+    expect(() => defineError('PAYMENT_DECLINED', 400, 'Again')).toThrow(
+      'Error code PAYMENT_DECLINED is already defined'
+    );
+  });
+
+  it('should reject malformed codes and statuses', () => {
+    expect(() => defineError('paymentDeclined', 402, 'x')).toThrow(
+      'Error code paymentDeclined must be UPPER_SNAKE_CASE'
+    );
+    expect(() => defineError('MOVED', 301, 'x')).toThrow(
+      'Error MOVED must use a 4xx or 5xx status'
+    );
+  });
+});
@@ -25,7 +25,7 @@ export async function build(
   });
 
   // Register our application
-  await app.register(fp(App));
+  await app.register(fp(App), config);
 
   // Ensure the app is ready before returning
   await app.ready();
@@ -68,6 +68,32 @@ export async function injectRequest(
   return app.inject(options);
 }
 
+/** A parsed JSON log line */
+export interface LogLine {
+  msg?: string;
+  level?: number;
+  [field: string]: unknown;
+}
+
+/**
+ * Capture the log lines of a Fastify instance
+ * Pass `stream` as the logger's `stream`; `lines` fills as the app logs
+ */
+export function captureLogs(): {
+  lines: LogLine[];
+  stream: { write: (line: string) => void };
+} {
+  const lines: LogLine[] = [];
+  return {
+    lines,
+    stream: {
+      write: line => {
+        lines.push(JSON.parse(line) as LogLine);
+      },
+    },
+  };
+}
+
 // Legacy exports for backwards compatibility with existing tests
 export { build as default };
 export const config = () => defaultConfig;
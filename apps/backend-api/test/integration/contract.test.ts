@@ -0,0 +1,162 @@
+import Fastify, { type FastifyInstance } from 'fastify';
+import { describe, it, expect, afterAll, afterEach } from 'vitest';
+import { z } from 'zod';
+
+import { loadAppConfig } from '../../src/config.js';
+import envPlugin from '../../src/plugins/env.js';
+import swaggerPlugin from '../../src/plugins/swagger.js';
+import zodPlugin, {
+  withExample,
+  type ZodTypeProvider,
+} from '../../src/plugins/zod.js';
+import { build } from '../helper.js';
+import { contractCases } from '../utils/contract.js';
+
+// Every documented operation, exercised with its declared examples
+const app = await build({ logger: false });
+const cases = contractCases(app);
+
+describe('API contract', () => {
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should cover every documented operation', () => {
+    expect(cases.map(({ name }) => name)).toEqual(
+      expect.arrayContaining(['GET /', 'GET /example/', 'GET /health/ready'])
+    );
+  });
+
+  it.each(cases)(
+    '$name should honour its documented contract',
+    async ({ check }) => {
+      expect(await check()).toEqual([]);
+    }
+  );
+});
+
+describe('contractCases', () => {
+  let testApp: FastifyInstance;
+
+  afterEach(async () => {
+    await testApp.close();
+  });
+
+  const setup = async (
+    register: (fastify: FastifyInstance) => void
+  ): Promise<Record<string, () => Promise<string[]>>> => {
+    testApp = Fastify({ logger: false });
+    await testApp.register(envPlugin, {
+      config: loadAppConfig({ env: { NODE_ENV: 'test' } }),
+    });
+    await testApp.register(zodPlugin);
+    await testApp.register(swaggerPlugin);
+    register(testApp);
+    await testApp.ready();
+    return Object.fromEntries(
+      contractCases(testApp).map(({ name, check }) => [name, check])
+    );
+  };
+
+  it('should build requests from parameter and body examples', async () => {
+    const received: unknown[] = [];
+    const checks = await setup(fastify => {
+      fastify.withTypeProvider<ZodTypeProvider>().post(
+        '/orders/:orderId/notes',
+        {
+          schema: {
+            params: z.object({ orderId: withExample(z.string(), 'ord-1') }),
+            querystring: z.object({
+              notify: withExample(z.boolean(), true).optional(),
+              page: z.number().int().optional(),
+            }),
+            body: z.object({
+              text: withExample(z.string(), 'Leave at the door'),
+              tags: z.array(withExample(z.string(), 'delivery')).optional(),
+            }),
+            response: { 201: z.object({ id: z.string() }) },
+          },
+        },
+        async (request, reply) => {
+          received.push(request.params, request.query, request.body);
+          return reply.code(201).send({ id: 'note-1' });
+        }
+      );
+    });
+
+    expect(await checks['POST /orders/{orderId}/notes']?.()).toEqual([]);
+    expect(received).toEqual([
+      { orderId: 'ord-1' },
+      { notify: true },
+      { text: 'Leave at the door', tags: ['delivery'] },
+    ]);
+  });
+
+  it('should fail operations without examples', async () => {
+    const checks = await setup(fastify => {
+      fastify.get(
+        '/plain',
+        { schema: { response: { 200: { type: 'string' } } } },
+        async () => 'plain'
+      );
+      fastify.get(
+        '/items/:itemId',
+        {
+          schema: {
+            params: {
+              type: 'object',
+              properties: { itemId: { type: 'string' } },
+              required: ['itemId'],
+            },
+            response: { 200: { type: 'string', example: 'item' } },
+          },
+        },
+        async () => 'item'
+      );
+    });
+
+    expect(await checks['GET /plain']?.()).toEqual([
+      'GET /plain declares no examples: add them to its parameters, request body or response schema',
+    ]);
+    expect(await checks['GET /items/{itemId}']?.()).toEqual([
+      'GET /items/{itemId} has no example for the path parameter itemId',
+    ]);
+  });
+
+  it('should report responses that break the documented schema', async () => {
+    const checks = await setup(fastify => {
+      fastify.get(
+        '/count',
+        {
+          schema: {
+            response: {
+              200: {
+                type: 'object',
+                properties: { count: { type: 'integer', example: 3 } },
+                required: ['count'],
+              },
+            },
+          },
+        },
+        // A custom serializer skips the schema, which would coerce the value
+        async (_request, reply) =>
+          reply
+            .type('application/json')
+            .serializer(JSON.stringify)
+            .send({ count: 'three' })
+      );
+      fastify.get(
+        '/gone',
+        { schema: { response: { 200: { type: 'string', example: 'here' } } } },
+        async (_request, reply) => reply.code(410).send('gone')
+      );
+    });
+
+    expect(await checks['GET /count']?.()).toEqual([
+      'GET /count 200 response: /count must be integer',
+    ]);
+    expect(await checks['GET /gone']?.()).toEqual([
+      'GET /gone responded 410, which is not documented',
+    ]);
+  });
+});
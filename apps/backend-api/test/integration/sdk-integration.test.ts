@@ -81,24 +81,43 @@ describe('SDK Integration', () => {
         expect(rootPath.get?.responses?.['500']).toBeDefined();
         expect(examplePath.get?.responses?.['500']).toBeDefined();
 
-        // Validate error response structure
+        // Error responses reference the catalogued error component
         const errorResponse = rootPath.get?.responses?.['500'];
         if (errorResponse && isResponseObject(errorResponse)) {
-          expect(errorResponse.description).toBe('Internal Server Error');
-          expect(errorResponse.content).toBeDefined();
-          expect(errorResponse.content?.['application/json']).toBeDefined();
-
-          const jsonContent = errorResponse.content?.['application/json'];
-          if (
-            jsonContent &&
-            'schema' in jsonContent &&
-            jsonContent.schema &&
-            'properties' in jsonContent.schema
-          ) {
-            expect(jsonContent.schema.properties?.['error']).toBeDefined();
-            expect(jsonContent.schema.properties?.['message']).toBeDefined();
-            expect(jsonContent.schema.properties?.['statusCode']).toBeDefined();
-          }
+          expect(errorResponse.description).toBe('Unexpected server error');
+          expect(
+            errorResponse.content?.['application/problem+json']?.schema
+          ).toEqual({ $ref: '#/components/schemas/INTERNAL_ERROR' });
+        }
+        expect(spec.components?.schemas?.['INTERNAL_ERROR']).toEqual({
+          description: 'Unexpected server error',
+          allOf: [
+            { $ref: '#/components/schemas/ProblemDetails' },
+            {
+              type: 'object',
+              properties: {
+                status: { type: 'integer', enum: [500] },
+                code: { type: 'string', enum: ['INTERNAL_ERROR'] },
+              },
+              required: ['code'],
+            },
+          ],
+        });
+
+        const problem = spec.components?.schemas?.['ProblemDetails'];
+        expect(problem).toBeDefined();
+        if (problem && 'properties' in problem) {
+          expect(Object.keys(problem.properties ?? {})).toEqual([
+            'type',
+            'title',
+            'status',
+            'code',
+            'detail',
+            'instance',
+            'requestId',
+            'violations',
+            'brandType',
+          ]);
         }
       }
     });
@@ -113,8 +132,14 @@ describe('SDK Integration', () => {
             if (operation.responses) {
               for (const [, response] of Object.entries(operation.responses)) {
                 if (isResponseObject(response) && response.content) {
-                  // Should have application/json content type
-                  expect(response.content['application/json']).toBeDefined();
+                  // JSON for results, problem details for errors
+                  expect(Object.keys(response.content)).toSatisfy(
+                    (types: string[]) =>
+                      types.length === 1 &&
+                      ['application/json', 'application/problem+json'].includes(
+                        types[0] ?? ''
+                      )
+                  );
                 }
               }
             }
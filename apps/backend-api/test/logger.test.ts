@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+
+import { createLoggerOptions } from '../src/logger.js';
+
+import { captureLogs, type LogLine } from './helper.js';
+
+describe('Logger options', () => {
+  let app: FastifyInstance;
+  let lines: LogLine[];
+
+  const buildApp = () => {
+    const logs = captureLogs();
+    lines = logs.lines;
+    app = Fastify({
+      logger: {
+        ...createLoggerOptions({ APP_ENV: 'test', LOG_LEVEL: 'info' }),
+        stream: logs.stream,
+      },
+    });
+    app.get('/items', async request => {
+      request.log.info({ headers: request.headers }, 'headers');
+      return { ok: true };
+    });
+  };
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('should use pino-pretty only in development', () => {
+    expect(
+      createLoggerOptions({ APP_ENV: 'development', LOG_LEVEL: 'debug' })
+    ).toMatchObject({ level: 'debug', transport: { target: 'pino-pretty' } });
+    for (const appEnv of ['preview', 'staging', 'production'] as const) {
+      expect(
+        createLoggerOptions({ APP_ENV: appEnv, LOG_LEVEL: 'warn' })
+      ).not.toHaveProperty('transport');
+    }
+  });
+
+  it('should redact secrets from logged request URLs', async () => {
+    buildApp();
+
+    await app.inject({ url: '/items?page=2&api_key=abc123' });
+
+    const incoming = lines.find(line => line.msg === 'incoming request');
+    expect(incoming).toMatchObject({
+      req: { url: '/items?page=2&api_key=[REDACTED]', method: 'GET' },
+    });
+  });
+
+  it('should redact sensitive headers', async () => {
+    buildApp();
+
+    await app.inject({
+      url: '/items',
+      headers: { authorization: 'Bearer abc', cookie: 'sid=1', accept: '*/*' },
+    });
+
+    const logged = lines.find(line => line.msg === 'headers');
+    expect(logged).toMatchObject({
+      headers: {
+        authorization: '[REDACTED]',
+        cookie: '[REDACTED]',
+        accept: '*/*',
+      },
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  bumpVersion,
+  compareVersions,
+  diffSpecs,
+  latestReleasedVersion,
+  requiredBump,
+  runOpenApiDiffCli,
+} from '../src/openapi-diff.js';
+
+const spec = (
+  paths: Record<string, unknown>,
+  schemas: Record<string, unknown> = {}
+): Record<string, unknown> => ({
+  openapi: '3.0.0',
+  info: { title: 'API', version: '1.0.0' },
+  paths,
+  components: { schemas },
+});
+
+const getOrders = (operation: Record<string, unknown> = {}) => ({
+  '/orders': {
+    get: {
+      operationId: 'listOrders',
+      responses: {
+        200: {
+          description: 'Orders',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/Order' },
+              },
+            },
+          },
+        },
+      },
+      ...operation,
+    },
+  },
+});
+
+const order = (properties: Record<string, unknown>, required: string[]) => ({
+  Order: { type: 'object', properties, required },
+});
+
+const ORDER = order(
+  {
+    id: { type: 'string', format: 'uuid' },
+    status: { type: 'string', enum: ['open', 'closed'] },
+    total: { type: 'number' },
+  },
+  ['id', 'status']
+);
+
+describe('OpenAPI diff', () => {
+  describe('diffSpecs', () => {
+    it('should find no changes between equal documents', () => {
+      expect(
+        diffSpecs(spec(getOrders(), ORDER), spec(getOrders(), ORDER))
+      ).toEqual([]);
+    });
+
+    it('should classify endpoint changes', () => {
+      const base = spec({
+        ...getOrders(),
+        '/users': { delete: { responses: { 204: { description: 'Gone' } } } },
+      });
+      const head = spec({
+        '/orders': {
+          post: { responses: { 201: { description: 'Created' } } },
+        },
+      });
+
+      expect(diffSpecs(base, head)).toEqual([
+        {
+          level: 'major',
+          location: 'GET /orders',
+          message: 'removed endpoint',
+        },
+        { level: 'minor', location: 'POST /orders', message: 'added endpoint' },
+        {
+          level: 'major',
+          location: 'DELETE /users',
+          message: 'removed endpoint',
+        },
+      ]);
+    });
+
+    it('should classify parameters by whether they are required', () => {
+      const parameter = (name: string, required: boolean) => ({
+        in: 'query',
+        name,
+        required,
+        schema: { type: 'string' },
+      });
+      const base = spec(
+        getOrders({
+          parameters: [parameter('status', false), parameter('page', false)],
+        }),
+        ORDER
+      );
+      const head = spec(
+        getOrders({
+          parameters: [
+            parameter('status', true),
+            parameter('tenantId', true),
+            parameter('filter', false),
+          ],
+        }),
+        ORDER
+      );
+
+      expect(diffSpecs(base, head)).toEqual([
+        {
+          level: 'major',
+          location: 'GET /orders query parameter status',
+          message: 'became required',
+        },
+        {
+          level: 'major',
+          location: 'GET /orders query parameter page',
+          message: 'removed parameter',
+        },
+        {
+          level: 'major',
+          location: 'GET /orders query parameter tenantId',
+          message: 'added required parameter',
+        },
+        {
+          level: 'minor',
+          location: 'GET /orders query parameter filter',
+          message: 'added optional parameter',
+        },
+      ]);
+    });
+
+    it('should classify response fields from the reader side', () => {
+      const head = order(
+        {
+          id: { type: 'string', format: 'uuid' },
+          status: { type: 'string', enum: ['open', 'closed', 'refunded'] },
+          total: { type: 'integer' },
+          currency: { type: 'string' },
+        },
+        ['id']
+      );
+
+      expect(
+        diffSpecs(spec(getOrders(), ORDER), spec(getOrders(), head))
+      ).toEqual([
+        {
+          level: 'major',
+          location: 'Order.status',
+          message: 'became optional',
+        },
+        {
+          level: 'major',
+          location: 'Order.status',
+          message: 'added enum values "refunded"',
+        },
+        {
+          level: 'major',
+          location: 'Order.total',
+          message: 'type changed from "number" to "integer"',
+        },
+        {
+          level: 'minor',
+          location: 'Order.currency',
+          message: 'added optional property',
+        },
+      ]);
+    });
+
+    it('should classify request bodies from the sender side', () => {
+      const createOrder = (schema: Record<string, unknown>) =>
+        spec({
+          '/orders': {
+            post: {
+              requestBody: {
+                required: true,
+                content: { 'application/json': { schema } },
+              },
+              responses: { 201: { description: 'Created' } },
+            },
+          },
+        });
+      const base = createOrder({
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['standard', 'express'] },
+          note: { type: 'string' },
+        },
+        required: ['kind', 'note'],
+      });
+      const head = createOrder({
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['standard', 'express', 'pickup'] },
+          note: { type: 'string' },
+          tenantId: { type: 'string' },
+        },
+        required: ['kind', 'tenantId'],
+      });
+
+      expect(requiredBump(diffSpecs(base, head))).toBe('major');
+      expect(diffSpecs(base, head)).toEqual([
+        {
+          level: 'minor',
+          location: 'POST /orders request body.kind',
+          message: 'added enum values "pickup"',
+        },
+        {
+          level: 'minor',
+          location: 'POST /orders request body.note',
+          message: 'became optional',
+        },
+        {
+          level: 'major',
+          location: 'POST /orders request body.tenantId',
+          message: 'added required property',
+        },
+      ]);
+    });
+
+    it('should report documentation and metadata as patch changes', () => {
+      const head = spec(getOrders({ summary: 'List orders' }), ORDER);
+      head['info'] = { title: 'API', version: '1.0.1' };
+
+      const changes = diffSpecs(spec(getOrders(), ORDER), head);
+
+      expect(changes).toEqual([
+        { level: 'patch', location: 'info', message: 'changed' },
+        { level: 'patch', location: 'GET /orders', message: 'changed summary' },
+      ]);
+      expect(requiredBump(changes)).toBe('patch');
+    });
+
+    it('should report a change once when an inline schema repeats it', () => {
+      const describe = (description: string) =>
+        spec({
+          '/orders': {
+            get: {
+              responses: {
+                200: {
+                  description,
+                  content: {
+                    'application/json': {
+                      schema: { type: 'string', description },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        });
+
+      expect(diffSpecs(describe('Orders'), describe('All orders'))).toEqual([
+        {
+          level: 'patch',
+          location: 'GET /orders response 200',
+          message: 'changed description',
+        },
+      ]);
+    });
+
+    it('should treat renamed operations as breaking and new schemas as additions', () => {
+      const base = spec(getOrders(), ORDER);
+      const head = spec(getOrders({ operationId: 'getOrders' }), {
+        ...ORDER,
+        OrderPage: { type: 'object' },
+      });
+
+      expect(diffSpecs(base, head)).toEqual([
+        { level: 'minor', location: 'OrderPage', message: 'added schema' },
+        {
+          level: 'major',
+          location: 'GET /orders',
+          message: 'operationId changed from "listOrders" to "getOrders"',
+        },
+      ]);
+    });
+  });
+
+  describe('versions', () => {
+    it('should bump versions', () => {
+      expect(bumpVersion('1.4.2', 'major')).toBe('2.0.0');
+      expect(bumpVersion('1.4.2', 'minor')).toBe('1.5.0');
+      expect(bumpVersion('1.4.2-beta.1', 'patch')).toBe('1.4.3');
+      expect(() => bumpVersion('latest', 'patch')).toThrow(
+        'Invalid version: latest'
+      );
+    });
+
+    it('should order versions', () => {
+      expect(compareVersions('1.10.0', '1.9.3')).toBeGreaterThan(0);
+      expect(compareVersions('2.0.0', '2.0.0')).toBe(0);
+      expect(compareVersions('1.0.0', '2.0.0')).toBeLessThan(0);
+    });
+
+    it('should read the latest release from the changelog', () => {
+      expect(
+        latestReleasedVersion(
+          '# Changelog\n\n## [Unreleased]\n\n## [1.2.0] - 2025-03-01\n\n## [1.1.0]\n'
+        )
+      ).toBe('1.2.0');
+      expect(latestReleasedVersion('## [Unreleased]\n')).toBeUndefined();
+    });
+  });
+
+  describe('CLI', () => {
+    let dir: string;
+    let out: string[];
+    let err: string[];
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'openapi-diff-'));
+      out = [];
+      err = [];
+      writeFileSync(
+        join(dir, 'openapi.json'),
+        JSON.stringify(spec(getOrders(), ORDER))
+      );
+      writeFileSync(
+        join(dir, 'package.json'),
+        JSON.stringify({ name: 'sdk', version: '1.0.0' })
+      );
+      writeFileSync(join(dir, 'CHANGELOG.md'), '## [1.0.0] - 2025-01-01\n');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const run = (current: Record<string, unknown>, ...args: string[]) =>
+      runOpenApiDiffCli(current, ['--sdk', '.', ...args], {
+        cwd: dir,
+        stdout: text => out.push(text),
+        stderr: text => err.push(text),
+      });
+
+    const sdkVersion = () =>
+      (
+        JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8')) as {
+          version: string;
+        }
+      ).version;
+
+    it('should pass when the document is unchanged', () => {
+      expect(run(spec(getOrders(), ORDER))).toBe(0);
+      expect(out).toEqual(['No OpenAPI changes']);
+    });
+
+    it('should propose a minor version for additions', () => {
+      const head = spec(
+        { ...getOrders(), '/users': { get: { responses: {} } } },
+        ORDER
+      );
+
+      expect(run(head)).toBe(0);
+      expect(out).toEqual([
+        'OpenAPI changes: 0 major, 1 minor, 0 patch',
+        '  minor  GET /users: added endpoint',
+        'Required SDK bump: minor (released 1.0.0, proposed 1.1.0)',
+        'Set the SDK version to 1.1.0 (currently 1.0.0)',
+      ]);
+    });
+
+    it('should fail on breaking changes without a major version', () => {
+      expect(run(spec({}, ORDER))).toBe(1);
+      expect(err).toEqual([
+        `✖ Breaking changes need a major SDK version bump: set ${join(dir, 'package.json')} to 2.0.0 or run with --write`,
+      ]);
+
+      writeFileSync(
+        join(dir, 'package.json'),
+        JSON.stringify({ name: 'sdk', version: '2.0.0' })
+      );
+      expect(run(spec({}, ORDER))).toBe(0);
+    });
+
+    it('should write the proposed version', () => {
+      expect(run(spec({}, ORDER), '--write')).toBe(0);
+      expect(sdkVersion()).toBe('2.0.0');
+      expect(out).toContain('✔ Set the SDK version to 2.0.0');
+    });
+
+    it('should compare against an explicit released version', () => {
+      expect(run(spec({}, ORDER), '--released', '0.9.0', '--json')).toBe(0);
+      expect(JSON.parse(out.join('\n'))).toMatchObject({
+        bump: 'major',
+        released: '0.9.0',
+        version: '1.0.0',
+        proposed: '1.0.0',
+      });
+    });
+
+    it('should report unreadable files and bad usage', () => {
+      expect(run(spec({}), '--base', 'missing.json')).toBe(1);
+      expect(err[0]).toMatch(/^✖ ENOENT/);
+      expect(run(spec({}), '--unknown')).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  renderSpec,
+  runOpenApiCli,
+  sortSpec,
+  toYaml,
+} from '../src/openapi-spec.js';
+
+const spec = {
+  openapi: '3.0.0',
+  info: { title: 'API', version: '1.0.0' },
+  components: {
+    schemas: { Order: { type: 'object' }, ArticleId: { type: 'string' } },
+  },
+  paths: {
+    '/orders': {
+      post: { responses: { 500: {}, 201: {} } },
+      get: { responses: { 200: {} } },
+    },
+    '/articles': { get: { responses: { 200: {} } } },
+  },
+  tags: [{ name: 'Orders' }, { name: 'Articles' }],
+};
+
+describe('OpenAPI output', () => {
+  describe('sortSpec', () => {
+    it('should sort what registration order decides', () => {
+      const sorted = sortSpec(spec);
+
+      expect(Object.keys(sorted)).toEqual([
+        'openapi',
+        'info',
+        'components',
+        'paths',
+        'tags',
+      ]);
+      expect(Object.keys(sorted['paths'] as object)).toEqual([
+        '/articles',
+        '/orders',
+      ]);
+      expect(
+        JSON.stringify((sorted['paths'] as Record<string, unknown>)['/orders'])
+      ).toBe(
+        '{"get":{"responses":{"200":{}}},"post":{"responses":{"201":{},"500":{}}}}'
+      );
+      expect(
+        Object.keys(
+          (sorted['components'] as { schemas: Record<string, unknown> }).schemas
+        )
+      ).toEqual(['ArticleId', 'Order']);
+      expect(sorted['tags']).toEqual(spec.tags);
+    });
+  });
+
+  describe('toYaml', () => {
+    it('should write block-style YAML', () => {
+      expect(
+        toYaml({
+          title: 'API',
+          paths: { '/orders/{id}': { get: { tags: ['Orders'] } } },
+          required: ['code'],
+          allOf: [{ $ref: '#/components/schemas/Problem' }, { type: 'object' }],
+          empty: {},
+          none: [],
+          nullable: true,
+          count: 2,
+        })
+      ).toBe(
+        [
+          'title: API',
+          'paths:',
+          '  /orders/{id}:',
+          '    get:',
+          '      tags:',
+          '        - Orders',
+          'required:',
+          '  - code',
+          'allOf:',
+          '  - $ref: "#/components/schemas/Problem"',
+          '  - type: object',
+          'empty: {}',
+          'none: []',
+          'nullable: true',
+          'count: 2',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should quote strings that would read back differently', () => {
+      expect(
+        toYaml({
+          version: '1.0.0',
+          status: '200',
+          flag: 'off',
+          time: 'a: b',
+          multiline: 'one\ntwo',
+          dash: '- item',
+        })
+      ).toBe(
+        [
+          'version: "1.0.0"',
+          'status: "200"',
+          'flag: "off"',
+          'time: "a: b"',
+          'multiline: "one\\ntwo"',
+          'dash: "- item"',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('CLI', () => {
+    let dir: string;
+    let out: string[];
+    let err: string[];
+    const builtFor: string[] = [];
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'openapi-spec-'));
+      out = [];
+      err = [];
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const run = (...args: string[]) =>
+      runOpenApiCli(
+        args,
+        nodeEnv => {
+          builtFor.push(nodeEnv);
+          return Promise.resolve(spec);
+        },
+        {
+          cwd: dir,
+          stdout: text => out.push(text),
+          stderr: text => err.push(text),
+        }
+      );
+
+    it('should write the JSON and YAML documents', async () => {
+      expect(await run('--yaml', '--env', 'production')).toBe(0);
+
+      expect(builtFor.at(-1)).toBe('production');
+      expect(readFileSync(join(dir, 'openapi.json'), 'utf8')).toBe(
+        renderSpec(spec, 'json')
+      );
+      expect(readFileSync(join(dir, 'openapi.yaml'), 'utf8')).toBe(
+        renderSpec(spec, 'yaml')
+      );
+      expect(out).toEqual([
+        '✔ Wrote openapi.json',
+        '✔ Wrote openapi.yaml',
+        '3 operations documented',
+      ]);
+    });
+
+    it('should check the committed documents', async () => {
+      expect(await run('--check', '--yaml')).toBe(1);
+      expect(err).toEqual([
+        '✖ openapi.json is out of date; regenerate it with pnpm openapi:generate',
+        '✖ openapi.yaml is out of date; regenerate it with pnpm openapi:generate',
+      ]);
+
+      await run('--yaml');
+      expect(await run('--check', '--yaml')).toBe(0);
+      expect(out.at(-1)).toBe('✔ openapi.json, openapi.yaml up to date');
+    });
+
+    it('should reject bad usage', async () => {
+      expect(await run('--output', 'spec.yaml')).toBe(2);
+      expect(await run('--unknown')).toBe(2);
+      expect(existsSync(join(dir, 'spec.yaml'))).toBe(false);
+    });
+  });
+});
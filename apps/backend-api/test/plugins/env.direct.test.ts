@@ -1,7 +1,13 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
 import { describe, it, expect, beforeEach } from 'vitest';
+import { ENVIRONMENT_PROFILES } from '@ai-fastify-template/config';
 import Fastify, { type FastifyInstance } from 'fastify';
 
 // Direct import to ensure mutation coverage
+import { loadAppConfig } from '../../src/config.js';
 import envPlugin from '../../src/plugins/env.js';
 
 describe('Environment Plugin Direct Tests', () => {
@@ -72,6 +78,7 @@ describe('Environment Plugin Direct Tests', () => {
 
     // Remove optional env vars to test defaults
     delete process.env['NODE_ENV'];
+    delete process.env['APP_ENV'];
     delete process.env['PORT'];
     delete process.env['HOST'];
     delete process.env['LOG_LEVEL'];
@@ -85,7 +92,9 @@ describe('Environment Plugin Direct Tests', () => {
       expect(app.config?.NODE_ENV).toBe('development');
       expect(app.config?.PORT).toBe(3000);
       expect(app.config?.HOST).toBe('localhost');
-      expect(app.config?.LOG_LEVEL).toBe('info');
+      expect(app.config?.APP_ENV).toBe('development');
+      // From the development profile
+      expect(app.config?.LOG_LEVEL).toBe('debug');
     } finally {
       process.env = originalEnv;
       await app.close();
@@ -137,4 +146,125 @@ describe('Environment Plugin Direct Tests', () => {
       await app.close();
     }
   });
+
+  it('should expose the deployment environment profile', async () => {
+    const originalEnv = process.env;
+    process.env = {
+      ...originalEnv,
+      NODE_ENV: 'production',
+      APP_ENV: 'staging',
+    };
+
+    try {
+      await app.register(envPlugin);
+      await app.ready();
+
+      expect(app.config.NODE_ENV).toBe('production');
+      expect(app.environment).toEqual({
+        name: 'staging',
+        ...ENVIRONMENT_PROFILES.staging,
+      });
+      expect(app.environment.productionLike).toBe(true);
+    } finally {
+      process.env = originalEnv;
+      await app.close();
+    }
+  });
+
+  it('should use configuration preloaded by the caller', async () => {
+    const config = loadAppConfig({ env: { PORT: '4321' } });
+
+    try {
+      await app.register(envPlugin, { config });
+      await app.ready();
+
+      expect(app.config).toBe(config.config);
+      expect(app.config.PORT).toBe(4321);
+      expect(app.configSources['PORT']).toBe('process.env');
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('should redact values supplied through secret files in the log', async () => {
+    const secretDir = mkdtempSync(join(tmpdir(), 'env-secret-'));
+    const hostFile = join(secretDir, 'host');
+    writeFileSync(hostFile, 'internal.example\n');
+
+    const lines: string[] = [];
+    const logged = Fastify({
+      logger: { level: 'info', stream: { write: line => lines.push(line) } },
+    });
+    const config = loadAppConfig({ env: { HOST_FILE: hostFile } });
+
+    try {
+      await logged.register(envPlugin, { config });
+      await logged.ready();
+
+      expect(logged.config.HOST).toBe('internal.example');
+      const entry = lines
+        .map(line => JSON.parse(line))
+        .find(line => line.msg === 'Environment configuration loaded');
+      expect(entry.config.HOST).toBe('[REDACTED]');
+      expect(entry.config.PORT).toBe(3000);
+    } finally {
+      rmSync(secretDir, { recursive: true, force: true });
+      await logged.close();
+    }
+  });
+
+  describe('.env file loading', () => {
+    let envDir: string;
+
+    beforeEach(() => {
+      envDir = mkdtempSync(join(tmpdir(), 'env-plugin-'));
+    });
+
+    it('should load values from .env files in precedence order', async () => {
+      const originalEnv = process.env;
+      process.env = { ...originalEnv, NODE_ENV: 'test' };
+      delete process.env['PORT'];
+      delete process.env['HOST'];
+
+      writeFileSync(join(envDir, '.env'), 'PORT=4000\nHOST=0.0.0.0');
+      writeFileSync(join(envDir, '.env.test'), 'PORT=5000');
+
+      try {
+        await app.register(envPlugin, { envDir });
+        await app.ready();
+
+        expect(app.config?.PORT).toBe(5000);
+        expect(app.config?.HOST).toBe('0.0.0.0');
+        expect(app.configSources).toMatchObject({
+          PORT: '.env.test',
+          HOST: '.env',
+          NODE_ENV: 'process.env',
+          APP_ENV: 'NODE_ENV',
+          LOG_LEVEL: 'profile:test',
+        });
+      } finally {
+        process.env = originalEnv;
+        rmSync(envDir, { recursive: true, force: true });
+        await app.close();
+      }
+    });
+
+    it('should name the source file in validation errors', async () => {
+      const originalEnv = process.env;
+      process.env = { ...originalEnv, NODE_ENV: 'test' };
+      delete process.env['PORT'];
+
+      writeFileSync(join(envDir, '.env.test'), 'PORT=not-a-port');
+
+      try {
+        void app.register(envPlugin, { envDir });
+        await expect(app.ready()).rejects.toThrow(
+          'PORT from .env.test: PORT must contain only numeric characters'
+        );
+      } finally {
+        process.env = originalEnv;
+        rmSync(envDir, { recursive: true, force: true });
+      }
+    });
+  });
 });
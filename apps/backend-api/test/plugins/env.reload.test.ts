@@ -0,0 +1,134 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+
+import envPlugin from '../../src/plugins/env.js';
+
+describe('Environment Plugin Live Reload', () => {
+  let app: FastifyInstance;
+  let envDir: string;
+  let lines: string[];
+  const originalEnv = process.env;
+
+  beforeEach(async () => {
+    envDir = mkdtempSync(join(tmpdir(), 'env-reload-'));
+    process.env = { ...originalEnv, NODE_ENV: 'test' };
+    delete process.env['LOG_LEVEL'];
+    delete process.env['PORT'];
+
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=info\nPORT=3000');
+
+    lines = [];
+    app = Fastify({
+      logger: { level: 'info', stream: { write: line => lines.push(line) } },
+    });
+    await app.register(envPlugin, { envDir });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    rmSync(envDir, { recursive: true, force: true });
+    await app.close();
+  });
+
+  const logEntry = (msg: string) =>
+    lines.map(line => JSON.parse(line)).find(line => line.msg === msg);
+
+  it('should report unchanged configuration', async () => {
+    const result = await app.reloadConfig();
+
+    expect(result.status).toBe('unchanged');
+    expect(result.applied).toEqual([]);
+  });
+
+  it('should apply reloadable fields and update the logger level', async () => {
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=debug\nPORT=3000');
+
+    const result = await app.reloadConfig();
+
+    expect(result.status).toBe('applied');
+    expect(result.applied).toEqual([
+      { field: 'LOG_LEVEL', previous: 'info', next: 'debug' },
+    ]);
+    expect(app.config.LOG_LEVEL).toBe('debug');
+    expect(app.log.level).toBe('debug');
+    expect(logEntry('Configuration reloaded').changes).toEqual(result.applied);
+  });
+
+  it('should not apply fields that need a restart', async () => {
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=info\nPORT=4000');
+
+    const result = await app.reloadConfig();
+
+    expect(result.status).toBe('unchanged');
+    expect(result.ignored).toEqual(['PORT']);
+    expect(app.config.PORT).toBe(3000);
+    expect(
+      logEntry('Configuration changes require a restart and were not applied')
+        .fields
+    ).toEqual(['PORT']);
+  });
+
+  it('should reject the whole reload when validation fails', async () => {
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=debug\nPORT=oops');
+
+    const result = await app.reloadConfig();
+
+    expect(result.status).toBe('rejected');
+    expect(result.issues[0]).toMatchObject({
+      field: 'PORT',
+      source: '.env.test',
+    });
+    expect(app.config.LOG_LEVEL).toBe('info');
+    expect(app.log.level).toBe('info');
+  });
+
+  it('should notify subscribers of applied changes', async () => {
+    const listener = vi.fn();
+    app.onConfigChange(listener);
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=warn\nPORT=3000');
+
+    await app.reloadConfig();
+
+    expect(listener).toHaveBeenCalledWith(
+      [{ field: 'LOG_LEVEL', previous: 'info', next: 'warn' }],
+      app.config
+    );
+  });
+
+  it('should keep notifying subscribers when one of them fails', async () => {
+    const failing = vi.fn().mockRejectedValue(new Error('boom'));
+    const listener = vi.fn();
+    app.onConfigChange(failing);
+    app.onConfigChange(listener);
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=warn\nPORT=3000');
+
+    const result = await app.reloadConfig();
+
+    expect(result.status).toBe('applied');
+    expect(listener).toHaveBeenCalledOnce();
+    expect(logEntry('Configuration change listener failed')).toBeDefined();
+  });
+
+  it('should reload on the configured signal and remove the handler on close', async () => {
+    const signalled = Fastify({ logger: false });
+    const before = process.listenerCount('SIGHUP');
+
+    await signalled.register(envPlugin, { envDir, reloadSignal: 'SIGHUP' });
+    await signalled.ready();
+    expect(process.listenerCount('SIGHUP')).toBe(before + 1);
+
+    writeFileSync(join(envDir, '.env.test'), 'LOG_LEVEL=error\nPORT=3000');
+    process.emit('SIGHUP', 'SIGHUP');
+    await vi.waitFor(() => {
+      expect(signalled.config.LOG_LEVEL).toBe('error');
+    });
+
+    await signalled.close();
+    expect(process.listenerCount('SIGHUP')).toBe(before);
+  });
+});
@@ -1,40 +1,11 @@
 import { describe, it, expect } from 'vitest';
-import { z, ZodError } from 'zod';
+import { ZodError } from 'zod';
 
-// Import the schema directly for unit testing
+import { appConfig } from '../../src/config.js';
+
+// Use the application schema directly for unit testing
 // This tests the validation logic without the Fastify plugin overhead
-const EnvSchema = z.object({
-  NODE_ENV: z
-    .enum(['development', 'production', 'test'], {
-      errorMap: () => ({
-        message: 'NODE_ENV must be one of: development, production, test',
-      }),
-    })
-    .default('development'),
-  PORT: z
-    .string({
-      required_error: 'PORT environment variable is required',
-      invalid_type_error: 'PORT must be a string',
-    })
-    .regex(/^\d+$/, 'PORT must contain only numeric characters')
-    .transform(Number)
-    .refine(n => n > 0 && n < 65536, 'PORT must be between 1-65535')
-    .default('3000'),
-  HOST: z
-    .string({
-      invalid_type_error: 'HOST must be a string',
-    })
-    .min(1, 'HOST cannot be empty')
-    .default('localhost'),
-  LOG_LEVEL: z
-    .enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace'], {
-      errorMap: () => ({
-        message:
-          'LOG_LEVEL must be one of: fatal, error, warn, info, debug, trace',
-      }),
-    })
-    .default('info'),
-});
+const EnvSchema = appConfig.schema;
 
 describe('Environment Schema Validation', () => {
   describe('Valid configurations', () => {
@@ -43,7 +14,8 @@ describe('Environment Schema Validation', () => {
       expect(result.NODE_ENV).toBe('development');
       expect(result.PORT).toBe(3000);
       expect(result.HOST).toBe('localhost');
-      expect(result.LOG_LEVEL).toBe('info');
+      // Derived from the APP_ENV profile by the loader, not the schema
+      expect(result.LOG_LEVEL).toBeUndefined();
     });
 
     it('should parse custom PORT value', () => {
@@ -0,0 +1,463 @@
+import { EntityIdConstructors } from '@ai-fastify-template/types';
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { z, type ZodTypeAny } from 'zod';
+
+import { loadAppConfig } from '../../src/config.js';
+import { defineError } from '../../src/errors.js';
+import envPlugin from '../../src/plugins/env.js';
+import errorHandler, {
+  errorResponses,
+  PROBLEM_CONTENT_TYPE,
+  problemResponse,
+} from '../../src/plugins/error-handler.js';
+
+const OrderNotFound = defineError(
+  'ORDER_NOT_FOUND',
+  404,
+  'No order has this id'
+);
+const CustomerNotFound = defineError(
+  'CUSTOMER_NOT_FOUND',
+  404,
+  'No customer has this id'
+);
+const LedgerUnavailable = defineError(
+  'LEDGER_UNAVAILABLE',
+  503,
+  'The ledger service did not respond'
+);
+
+describe('Error handler plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const setup = async (
+    env: NodeJS.ProcessEnv = {},
+    routes?: (instance: FastifyInstance) => Promise<void>
+  ): Promise<void> => {
+    app = Fastify({ logger: false });
+    await app.register(envPlugin, {
+      config: loadAppConfig({ env: { NODE_ENV: 'test', ...env } }),
+    });
+    await app.register(errorHandler);
+
+    app.get(
+      '/fail',
+      { schema: { response: { 500: problemResponse('Failure') } } },
+      async () => {
+        throw new Error('database password rejected');
+      }
+    );
+    app.get('/limited', async () => {
+      throw Object.assign(new Error('Slow down'), {
+        statusCode: 429,
+        headers: { 'retry-after': '5' },
+      });
+    });
+    app.post(
+      '/items',
+      {
+        schema: {
+          body: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+        },
+      },
+      async () => ({ ok: true })
+    );
+    await routes?.(app);
+    await app.ready();
+  };
+
+  it('should render client errors as problem details', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/items?draft=1',
+      payload: {},
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.headers['content-type']).toContain(PROBLEM_CONTENT_TYPE);
+    expect(response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      code: 'VALIDATION_FAILED',
+      detail: "body must have required property 'name'",
+      instance: '/items',
+      requestId: 'req-1',
+      violations: [
+        {
+          path: 'body.name',
+          code: 'required',
+          message: "must have required property 'name'",
+        },
+      ],
+    });
+  });
+
+  it('should keep headers attached to the error', async () => {
+    await setup();
+
+    const response = await app.inject({ method: 'GET', url: '/limited' });
+
+    expect(response.statusCode).toBe(429);
+    expect(response.headers['retry-after']).toBe('5');
+    expect(response.json()).toMatchObject({
+      title: 'Too Many Requests',
+      detail: 'Slow down',
+    });
+  });
+
+  it('should render unknown routes as problem details', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/missing?token=secret',
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.headers['content-type']).toContain(PROBLEM_CONTENT_TYPE);
+    expect(response.json()).toMatchObject({
+      title: 'Not Found',
+      status: 404,
+      code: 'ROUTE_NOT_FOUND',
+      detail: 'Route GET:/missing not found',
+      instance: '/missing',
+    });
+    expect(response.body).not.toContain('secret');
+  });
+
+  it('should serialize errors with the shared schema', async () => {
+    await setup();
+
+    const response = await app.inject({ method: 'GET', url: '/fail' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      detail: 'database password rejected',
+      instance: '/fail',
+      requestId: 'req-1',
+    });
+  });
+
+  it('should hide server error details in production-like environments', async () => {
+    await setup({ APP_ENV: 'staging' });
+
+    const response = await app.inject({ method: 'GET', url: '/fail' });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).not.toHaveProperty('detail');
+    expect(response.payload).not.toContain('password');
+  });
+
+  it('should register the shared schema and one per catalogued error', async () => {
+    await setup();
+
+    expect(Object.keys(app.getSchemas())).toEqual([
+      'ProblemDetails',
+      'VALIDATION_FAILED',
+      'BRAND_VALIDATION_ERROR',
+      'ROUTE_NOT_FOUND',
+      'INTERNAL_ERROR',
+      'UNAUTHORIZED',
+      'ORDER_NOT_FOUND',
+      'CUSTOMER_NOT_FOUND',
+      'LEDGER_UNAVAILABLE',
+    ]);
+  });
+
+  describe('catalogued errors', () => {
+    const setupCatalog = (env: NodeJS.ProcessEnv = {}): Promise<void> =>
+      setup(env, async instance => {
+        instance.get<{ Querystring: { customer?: string } }>(
+          '/orders/:id',
+          {
+            schema: {
+              response: {
+                200: { type: 'object' },
+                ...errorResponses(OrderNotFound, CustomerNotFound),
+              },
+            },
+          },
+          async request => {
+            if (request.query.customer !== undefined) {
+              throw new CustomerNotFound();
+            }
+            throw new OrderNotFound('Order 42 does not exist');
+          }
+        );
+        instance.get(
+          '/ledger',
+          { schema: { response: errorResponses(LedgerUnavailable) } },
+          async () => {
+            throw new LedgerUnavailable('ledger at 10.0.0.7 timed out');
+          }
+        );
+      });
+
+    it('should render the status, code and detail', async () => {
+      await setupCatalog();
+
+      const response = await app.inject({ method: 'GET', url: '/orders/42' });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.headers['content-type']).toContain(PROBLEM_CONTENT_TYPE);
+      expect(response.json()).toEqual({
+        type: 'about:blank',
+        title: 'Not Found',
+        status: 404,
+        code: 'ORDER_NOT_FOUND',
+        detail: 'Order 42 does not exist',
+        instance: '/orders/:id',
+        requestId: 'req-1',
+      });
+    });
+
+    it('should serialize every member of a union', async () => {
+      await setupCatalog();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/orders/42?customer=7',
+      });
+
+      expect(response.json()).toMatchObject({
+        code: 'CUSTOMER_NOT_FOUND',
+        detail: 'No customer has this id',
+      });
+    });
+
+    it('should hide server error details in production-like environments', async () => {
+      await setupCatalog({ APP_ENV: 'production' });
+
+      const response = await app.inject({ method: 'GET', url: '/ledger' });
+
+      expect(response.statusCode).toBe(503);
+      expect(response.json()).toMatchObject({ code: 'LEDGER_UNAVAILABLE' });
+      expect(response.payload).not.toContain('10.0.0.7');
+    });
+
+    it('should register errors defined after the plugin', async () => {
+      await setup({}, async instance => {
+        // A route module defining its own error, loaded after the plugin
+        await instance.register(async scope => {
+          const InvoiceNotFound = defineError(
+            'INVOICE_NOT_FOUND',
+            404,
+            'No invoice has this id'
+          );
+          scope.get(
+            '/invoices/:id',
+            { schema: { response: errorResponses(InvoiceNotFound) } },
+            async () => {
+              throw new InvoiceNotFound();
+            }
+          );
+        });
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/invoices/1' });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toMatchObject({
+        code: 'INVOICE_NOT_FOUND',
+        detail: 'No invoice has this id',
+      });
+      expect(app.getSchema('INVOICE_NOT_FOUND')).toBeDefined();
+    });
+
+    it('should describe the errors of a route by status', () => {
+      expect(
+        errorResponses(OrderNotFound, CustomerNotFound, LedgerUnavailable)
+      ).toEqual({
+        404: {
+          description: 'Not Found',
+          content: {
+            [PROBLEM_CONTENT_TYPE]: {
+              schema: {
+                oneOf: [
+                  { $ref: 'ORDER_NOT_FOUND#' },
+                  { $ref: 'CUSTOMER_NOT_FOUND#' },
+                ],
+                discriminator: { propertyName: 'code' },
+              },
+            },
+          },
+        },
+        503: {
+          description: 'The ledger service did not respond',
+          content: {
+            [PROBLEM_CONTENT_TYPE]: {
+              schema: { $ref: 'LEDGER_UNAVAILABLE#' },
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('validation errors', () => {
+    const SECRET = 'hunter2-token';
+
+    const setupValidation = (): Promise<void> =>
+      setup({}, async instance => {
+        await instance.register(async scope => {
+          // Zod schemas validate the request directly
+          scope.setValidatorCompiler<ZodTypeAny>(({ schema }) => data => {
+            const result = schema.safeParse(data);
+            return result.success
+              ? { value: result.data }
+              : { error: result.error };
+          });
+
+          scope.post(
+            '/orders/:id',
+            {
+              schema: {
+                params: z.object({ id: z.string().uuid() }),
+                querystring: z.object({ sort: z.enum(['asc', 'desc']) }),
+                body: z.object({
+                  items: z.array(
+                    z.object({
+                      price: z.number().min(0, 'Price must be non-negative'),
+                    })
+                  ),
+                }),
+              },
+            },
+            async () => ({ ok: true })
+          );
+        });
+
+        instance.post('/totals', async request => {
+          z.array(z.object({ quantity: z.number().int() })).parse(request.body);
+          return { ok: true };
+        });
+        instance.get<{ Params: { id: string } }>(
+          '/users/:id',
+          async request => ({
+            id: EntityIdConstructors.UserId(request.params.id),
+          })
+        );
+      });
+
+    it('should report params violations', async () => {
+      await setupValidation();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/orders/${SECRET}?sort=asc`,
+        payload: { items: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        title: 'Bad Request',
+        detail: 'Validation failed',
+        violations: [
+          {
+            path: 'params.id',
+            code: 'invalid_string',
+            message: 'Invalid uuid',
+          },
+        ],
+      });
+      expect(response.payload).not.toContain(SECRET);
+    });
+
+    it('should report query violations without echoing the value', async () => {
+      await setupValidation();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/orders/550e8400-e29b-41d4-a716-446655440000?sort=${SECRET}`,
+        payload: { items: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        violations: [
+          {
+            path: 'querystring.sort',
+            code: 'invalid_enum_value',
+            message: 'Expected one of: asc, desc',
+          },
+        ],
+      });
+      expect(response.payload).not.toContain(SECRET);
+    });
+
+    it('should report body violations with the full path', async () => {
+      await setupValidation();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/orders/550e8400-e29b-41d4-a716-446655440000?sort=asc',
+        payload: { items: [{ price: 1 }, { price: -1 }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        violations: [
+          {
+            path: 'body.items.1.price',
+            code: 'too_small',
+            message: 'Price must be non-negative',
+          },
+        ],
+      });
+    });
+
+    it('should map a ZodError thrown by a handler', async () => {
+      await setupValidation();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/totals',
+        payload: [{ quantity: 1.5 }],
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        violations: [
+          {
+            path: '0.quantity',
+            code: 'invalid_type',
+            message: 'Expected integer, received float',
+          },
+        ],
+      });
+    });
+
+    it('should map a BrandValidationError naming the brand', async () => {
+      await setupValidation();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/users/${SECRET}`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        title: 'Bad Request',
+        detail: 'Invalid UserId',
+        brandType: 'UserId',
+      });
+      expect(response.payload).not.toContain(SECRET);
+    });
+  });
+});
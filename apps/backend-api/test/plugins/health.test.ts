@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+
+import { loadAppConfig } from '../../src/config.js';
+import envPlugin from '../../src/plugins/env.js';
+import healthPlugin from '../../src/plugins/health.js';
+
+describe('Health Check Registry', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    await app.register(envPlugin, {
+      config: loadAppConfig({
+        env: { NODE_ENV: 'test', HEALTH_CACHE_TTL: '0' },
+      }),
+    });
+    await app.register(healthPlugin);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await app.close();
+  });
+
+  it('should report ok without checks', async () => {
+    const report = await app.health.check();
+
+    expect(report.status).toBe('ok');
+    expect(report.checks).toEqual({});
+    expect(Date.parse(report.checkedAt)).not.toBeNaN();
+  });
+
+  it('should run registered checks', async () => {
+    const check = vi.fn(async () => {});
+    app.health.register('database', check);
+
+    const report = await app.health.check();
+
+    expect(check).toHaveBeenCalledOnce();
+    expect(report.status).toBe('ok');
+    expect(report.checks['database']).toMatchObject({
+      status: 'ok',
+      critical: true,
+    });
+  });
+
+  it('should fail on a failing critical check', async () => {
+    app.health.register('database', () => {
+      throw new Error('connection refused');
+    });
+    app.health.register('cache', async () => {});
+
+    const report = await app.health.check();
+
+    expect(report.status).toBe('error');
+    expect(report.checks['database']).toMatchObject({
+      status: 'error',
+      error: 'connection refused',
+    });
+    expect(report.checks['cache']?.status).toBe('ok');
+  });
+
+  it('should only degrade on a failing non-critical check', async () => {
+    app.health.register(
+      'cache',
+      async () => {
+        throw new Error('cache miss storm');
+      },
+      { critical: false }
+    );
+
+    const report = await app.health.check();
+
+    expect(report.status).toBe('degraded');
+    expect(report.checks['cache']).toMatchObject({
+      status: 'error',
+      critical: false,
+    });
+  });
+
+  it('should fail checks that exceed their timeout', async () => {
+    app.health.register('queue', () => new Promise(() => {}), { timeout: 10 });
+
+    const report = await app.health.check();
+
+    expect(report.checks['queue']).toMatchObject({
+      status: 'error',
+      error: 'queue timed out after 10ms',
+    });
+  });
+
+  it('should reject duplicate check names', () => {
+    app.health.register('database', () => {});
+
+    expect(() => app.health.register('database', () => {})).toThrow(
+      'Health check "database" is already registered'
+    );
+  });
+
+  it('should share one run between concurrent callers', async () => {
+    const check = vi.fn(async () => {});
+    app.health.register('database', check);
+
+    const [first, second] = await Promise.all([
+      app.health.check(),
+      app.health.check(),
+    ]);
+
+    expect(check).toHaveBeenCalledOnce();
+    expect(second).toBe(first);
+  });
+
+  describe('caching', () => {
+    beforeEach(async () => {
+      await app.close();
+      app = Fastify({ logger: false });
+      await app.register(envPlugin, {
+        config: loadAppConfig({
+          env: { NODE_ENV: 'test', HEALTH_CACHE_TTL: '1000' },
+        }),
+      });
+      await app.register(healthPlugin);
+      await app.ready();
+    });
+
+    it('should reuse a report until HEALTH_CACHE_TTL passes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const check = vi.fn(async () => {});
+      app.health.register('database', check);
+
+      await app.health.check();
+      vi.advanceTimersByTime(500);
+      await app.health.check();
+      expect(check).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(600);
+      await app.health.check();
+      expect(check).toHaveBeenCalledTimes(2);
+    });
+  });
+});
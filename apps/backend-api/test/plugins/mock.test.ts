@@ -0,0 +1,398 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { ConfigValidationError } from '@ai-fastify-template/config';
+import type { FastifyInstance } from 'fastify';
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+
+import { loadAppConfig } from '../../src/config.js';
+import {
+  mockResponse,
+  preferredStatus,
+  sampleFromSchema,
+} from '../../src/plugins/mock.js';
+import { build } from '../helper.js';
+
+const spec = {
+  openapi: '3.0.0',
+  info: { title: 'Orders', version: '1.0.0' },
+  components: {
+    schemas: {
+      Order: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          status: { type: 'string', enum: ['open', 'closed'] },
+          total: { type: 'number', minimum: 1 },
+          lines: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { sku: { type: 'string', example: 'SKU-1' } },
+            },
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['id', 'status'],
+      },
+      Problem: {
+        type: 'object',
+        properties: {
+          status: { type: 'integer', example: 404 },
+          code: { type: 'string', example: 'ORDER_NOT_FOUND' },
+        },
+      },
+    },
+  },
+  paths: {
+    '/orders': {
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { sku: { type: 'string', minLength: 1 } },
+                required: ['sku'],
+              },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: 'Created',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Order' },
+                examples: {
+                  created: {
+                    value: { id: 'ord-1', status: 'open', total: 12.5 },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    '/orders/{orderId}': {
+      parameters: [
+        {
+          in: 'path',
+          name: 'orderId',
+          required: true,
+          schema: { type: 'integer', minimum: 1 },
+        },
+      ],
+      get: {
+        parameters: [
+          {
+            in: 'query',
+            name: 'expand',
+            schema: { type: 'boolean' },
+          },
+          {
+            in: 'header',
+            name: 'X-Tenant-Id',
+            required: true,
+            schema: { type: 'string' },
+          },
+        ],
+        responses: {
+          200: {
+            description: 'The order',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Order' },
+              },
+            },
+          },
+          404: {
+            description: 'Not found',
+            content: {
+              'application/problem+json': {
+                schema: { $ref: '#/components/schemas/Problem' },
+              },
+            },
+          },
+        },
+      },
+      delete: { responses: { 204: { description: 'Deleted' } } },
+    },
+  },
+};
+
+describe('Mock Plugin', () => {
+  let dir: string;
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'mock-'));
+    writeFileSync(join(dir, 'openapi.json'), JSON.stringify(spec));
+    app = await build({
+      config: loadAppConfig({
+        env: {
+          NODE_ENV: 'test',
+          MOCK_MODE: 'true',
+          MOCK_SPEC_FILE: join(dir, 'openapi.json'),
+        },
+      }),
+    });
+  });
+
+  afterAll(async () => {
+    await app.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const getOrder = (headers: Record<string, string> = {}, url = '/orders/7') =>
+    app.inject({
+      method: 'GET',
+      url,
+      headers: { 'x-tenant-id': 'acme', ...headers },
+    });
+
+  describe('Responses', () => {
+    it('should answer with the declared example', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/orders',
+        payload: { sku: 'SKU-1' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual({
+        id: 'ord-1',
+        status: 'open',
+        total: 12.5,
+      });
+    });
+
+    it('should generate data from the schema without an example', async () => {
+      const response = await getOrder();
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^application\/json/);
+      expect(response.json()).toEqual({
+        id: '00000000-0000-4000-8000-000000000000',
+        status: 'open',
+        total: 1,
+        lines: [{ sku: 'SKU-1' }],
+        createdAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should answer without content when none is documented', async () => {
+      const response = await app.inject({ method: 'DELETE', url: '/orders/7' });
+
+      expect(response.statusCode).toBe(204);
+      expect(response.body).toBe('');
+    });
+
+    it('should select a documented response with Prefer: code', async () => {
+      const response = await getOrder({ prefer: 'code=404' });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.headers['content-type']).toMatch(
+        /^application\/problem\+json/
+      );
+      expect(response.headers['preference-applied']).toBe('code=404');
+      expect(response.json()).toEqual({
+        status: 404,
+        code: 'ORDER_NOT_FOUND',
+      });
+    });
+
+    it('should ignore a preferred status that is not documented', async () => {
+      const response = await getOrder({ prefer: 'code=500' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers).not.toHaveProperty('preference-applied');
+      expect(response.json()).toMatchObject({ status: 'open' });
+    });
+  });
+
+  describe('Request validation', () => {
+    it('should validate parameters against the document', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/orders/0?expand=yes',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        instance: '/orders/:orderId',
+        violations: [{ path: 'params.orderId', code: 'minimum' }],
+      });
+
+      const missingHeader = await app.inject({
+        method: 'GET',
+        url: '/orders/7',
+      });
+      expect(missingHeader.json()).toMatchObject({
+        violations: [{ path: 'headers.x-tenant-id', code: 'required' }],
+      });
+
+      expect(
+        (await getOrder({}, '/orders/7?expand=maybe')).json()
+      ).toMatchObject({
+        violations: [{ path: 'querystring.expand', code: 'type' }],
+      });
+    });
+
+    it('should validate the request body', async () => {
+      const empty = await app.inject({ method: 'POST', url: '/orders' });
+      expect(empty.statusCode).toBe(400);
+
+      const invalid = await app.inject({
+        method: 'POST',
+        url: '/orders',
+        payload: { sku: '' },
+      });
+      expect(invalid.json()).toMatchObject({
+        violations: [{ path: 'body.sku', code: 'minLength' }],
+      });
+    });
+  });
+
+  describe('Routes and documentation', () => {
+    it('should replace the route handlers', async () => {
+      const response = await app.inject({ method: 'GET', url: '/example/' });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toMatchObject({ code: 'ROUTE_NOT_FOUND' });
+    });
+
+    it('should serve the mocked document as the API documentation', async () => {
+      const response = await app.inject({ method: 'GET', url: '/docs/json' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        info: { title: 'Orders' },
+        paths: { '/orders/{orderId}': { get: expect.any(Object) } },
+      });
+    });
+  });
+});
+
+describe('Mock mode with the committed document', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should answer every documented operation', async () => {
+    app = await build({
+      config: loadAppConfig({ env: { NODE_ENV: 'test', MOCK_MODE: 'true' } }),
+    });
+
+    const live = await app.inject({ method: 'GET', url: '/health/live' });
+    expect(live.statusCode).toBe(200);
+
+    const ready = await app.inject({
+      method: 'GET',
+      url: '/health/ready',
+      headers: { prefer: 'code=503' },
+    });
+    expect(ready.statusCode).toBe(503);
+    expect(ready.json()).toHaveProperty('status');
+  });
+});
+
+describe('Mock configuration', () => {
+  it('should default to off', () => {
+    const { config } = loadAppConfig({ env: { NODE_ENV: 'test' } });
+
+    expect(config.MOCK_MODE).toBe(false);
+  });
+
+  it('should require a readable document in mock mode', () => {
+    const load = () =>
+      loadAppConfig({
+        env: {
+          NODE_ENV: 'test',
+          MOCK_MODE: 'true',
+          MOCK_SPEC_FILE: '/nonexistent/openapi.json',
+        },
+      });
+
+    expect(load).toThrow(ConfigValidationError);
+    expect(load).toThrow(/MOCK_MODE needs a readable OpenAPI document/);
+    expect(() =>
+      loadAppConfig({
+        env: { NODE_ENV: 'test', MOCK_SPEC_FILE: 'openapi.yaml' },
+      })
+    ).toThrow('MOCK_SPEC_FILE must be a .json file');
+  });
+});
+
+describe('Mock data', () => {
+  it('should read the preferred status', () => {
+    expect(preferredStatus('code=404')).toBe(404);
+    expect(preferredStatus('respond-async, code="503"')).toBe(503);
+    expect(preferredStatus(['return=minimal', 'code=201'])).toBe(201);
+    expect(preferredStatus('code=4040')).toBeUndefined();
+    expect(preferredStatus(undefined)).toBeUndefined();
+  });
+
+  it('should sample schemas', () => {
+    const document = {
+      components: {
+        schemas: {
+          Category: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', minLength: 8 },
+              parent: { $ref: '#/components/schemas/Category' },
+            },
+          },
+        },
+      },
+    };
+    const category = sampleFromSchema(document, {
+      $ref: '#/components/schemas/Category',
+    });
+
+    expect(category).toMatchObject({
+      name: 'stringxx',
+      parent: { name: 'stringxx', parent: { name: 'stringxx' } },
+    });
+    expect(
+      sampleFromSchema(document, {
+        allOf: [
+          { type: 'object', properties: { id: { type: 'integer' } } },
+          { properties: { tags: { items: { type: 'string' }, minItems: 2 } } },
+        ],
+      })
+    ).toEqual({ id: 0, tags: ['string', 'string'] });
+    expect(
+      sampleFromSchema(document, {
+        oneOf: [{ type: ['null', 'boolean'] }, { type: 'string' }],
+      })
+    ).toBe(true);
+    expect(sampleFromSchema(document, { type: 'string', default: 'x' })).toBe(
+      'x'
+    );
+  });
+
+  it('should pick the first success response by default', () => {
+    const operation = {
+      responses: {
+        default: { description: 'Error' },
+        202: { description: 'Accepted' },
+        '2XX': { description: 'Success' },
+      },
+    };
+
+    expect(mockResponse({}, operation)).toEqual({ statusCode: 200 });
+    expect(mockResponse({}, operation, 500)).toEqual({ statusCode: 500 });
+    expect(mockResponse({}, { responses: { 201: {} } }, 404)).toEqual({
+      statusCode: 201,
+    });
+    expect(mockResponse({}, { responses: {} })).toEqual({ statusCode: 200 });
+  });
+});
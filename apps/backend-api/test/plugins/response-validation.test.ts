@@ -0,0 +1,280 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+import { loadAppConfig } from '../../src/config.js';
+import { InternalError } from '../../src/errors.js';
+import envPlugin from '../../src/plugins/env.js';
+import errorHandler, {
+  errorResponses,
+} from '../../src/plugins/error-handler.js';
+import responseValidation, {
+  findResponseSchema,
+} from '../../src/plugins/response-validation.js';
+import zodPlugin, { type ZodTypeProvider } from '../../src/plugins/zod.js';
+import { captureLogs, type LogLine } from '../helper.js';
+
+describe('Response Validation Plugin', () => {
+  let app: FastifyInstance;
+  let lines: LogLine[];
+
+  const setup = async (env: Record<string, string> = {}): Promise<void> => {
+    const logs = captureLogs();
+    lines = logs.lines;
+    app = Fastify({
+      logger: { level: 'info', stream: logs.stream },
+    });
+    await app.register(envPlugin, {
+      config: loadAppConfig({ env: { NODE_ENV: 'test', ...env } }),
+    });
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
+    await app.register(responseValidation);
+
+    // Handlers return whatever the query asks for, right or wrong
+    app.withTypeProvider<ZodTypeProvider>().get(
+      '/zod/:id',
+      {
+        schema: {
+          response: {
+            200: z.object({ id: z.string(), total: z.number().min(0) }),
+            ...errorResponses(InternalError),
+          },
+        },
+      },
+      async request =>
+        (request.query as { broken?: string }).broken === undefined
+          ? { id: 'a', total: 1 }
+          : { id: 'a', total: -1 }
+    );
+    app.get(
+      '/json',
+      {
+        schema: {
+          response: {
+            '2xx': {
+              type: 'object',
+              properties: { items: { type: 'array' } },
+              required: ['items'],
+            },
+          },
+        },
+      },
+      async () => ({ list: [] })
+    );
+    // Serialized by the handler, so Fastify sends it as it is
+    app.get(
+      '/string',
+      { schema: { response: { 200: z.string() } } },
+      async (request, reply) =>
+        reply
+          .type('application/json')
+          .send(
+            (request.query as { broken?: string }).broken === undefined
+              ? JSON.stringify('ok')
+              : JSON.stringify(1)
+          )
+    );
+    app.get(
+      '/failing',
+      { schema: { response: errorResponses(InternalError) } },
+      async (_request, reply) =>
+        reply.code(500).send({ status: 500, unexpected: true })
+    );
+    await app.ready();
+  };
+
+  // The error handler also logs the thrown 500 with the same message
+  const mismatches = () =>
+    lines.filter(line => line['violations'] !== undefined);
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('enforce', () => {
+    it('should pass matching responses through', async () => {
+      await setup({ RESPONSE_VALIDATION: 'enforce' });
+
+      const response = await app.inject({ method: 'GET', url: '/zod/1' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ id: 'a', total: 1 });
+      expect(mismatches()).toEqual([]);
+    });
+
+    it('should replace mismatching Zod responses with a 500', async () => {
+      await setup({ RESPONSE_VALIDATION: 'enforce' });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/zod/1?broken=1',
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.json()).toMatchObject({
+        code: 'INTERNAL_ERROR',
+        detail: 'Response does not match its schema',
+      });
+      expect(mismatches()).toEqual([
+        expect.objectContaining({
+          level: 50,
+          route: 'GET /zod/:id',
+          statusCode: 200,
+          violations: [
+            {
+              path: 'total',
+              message: 'Number must be greater than or equal to 0',
+            },
+          ],
+        }),
+      ]);
+    });
+
+    it('should check JSON Schema responses by status class', async () => {
+      await setup({ RESPONSE_VALIDATION: 'enforce' });
+
+      const response = await app.inject({ method: 'GET', url: '/json' });
+
+      expect(response.statusCode).toBe(500);
+      expect(mismatches()[0]).toMatchObject({
+        route: 'GET /json',
+        violations: [
+          { path: '', message: "must have required property 'items'" },
+        ],
+      });
+    });
+
+    it('should parse and check JSON sent as a string', async () => {
+      await setup({ RESPONSE_VALIDATION: 'enforce' });
+
+      const matching = await app.inject({ method: 'GET', url: '/string' });
+      expect(matching.statusCode).toBe(200);
+      expect(matching.json()).toBe('ok');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/string?broken=1',
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(response.json()).toMatchObject({ code: 'INTERNAL_ERROR' });
+      expect(mismatches()).toEqual([
+        expect.objectContaining({
+          route: 'GET /string',
+          violations: [
+            { path: '', message: 'Expected string, received number' },
+          ],
+        }),
+      ]);
+    });
+
+    it('should only log mismatching error responses', async () => {
+      await setup({ RESPONSE_VALIDATION: 'enforce' });
+
+      const response = await app.inject({ method: 'GET', url: '/failing' });
+
+      expect(response.statusCode).toBe(500);
+      expect(mismatches()[0]).toMatchObject({
+        level: 40,
+        route: 'GET /failing',
+        statusCode: 500,
+      });
+    });
+  });
+
+  it('should log without changing the response in log mode', async () => {
+    await setup({ RESPONSE_VALIDATION: 'log' });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/zod/1?broken=1',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ id: 'a', total: -1 });
+    expect(mismatches()).toEqual([
+      expect.objectContaining({ level: 40, route: 'GET /zod/:id' }),
+    ]);
+  });
+
+  it('should skip validation when off or not sampled', async () => {
+    for (const env of [
+      { RESPONSE_VALIDATION: 'off' },
+      { RESPONSE_VALIDATION: 'enforce', RESPONSE_VALIDATION_SAMPLE_RATE: '0' },
+    ]) {
+      await setup(env);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/zod/1?broken=1',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mismatches()).toEqual([]);
+      await app.close();
+    }
+    await setup();
+  });
+
+  it('should default to the APP_ENV profile', async () => {
+    await setup({
+      APP_ENV: 'production',
+      RESPONSE_VALIDATION_SAMPLE_RATE: '1',
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/zod/1?broken=1',
+    });
+
+    expect(app.config.RESPONSE_VALIDATION).toBeUndefined();
+    expect(response.statusCode).toBe(200);
+    expect(mismatches()).toHaveLength(1);
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() =>
+      loadAppConfig({ env: { RESPONSE_VALIDATION: 'strict' } })
+    ).toThrow('RESPONSE_VALIDATION must be one of: off, log, enforce');
+    expect(() =>
+      loadAppConfig({ env: { RESPONSE_VALIDATION_SAMPLE_RATE: '1.5' } })
+    ).toThrow('RESPONSE_VALIDATION_SAMPLE_RATE must be a number from 0 to 1');
+    expect(() =>
+      loadAppConfig({ env: { RESPONSE_VALIDATION_SAMPLE_RATE: 'half' } })
+    ).toThrow('RESPONSE_VALIDATION_SAMPLE_RATE must be a number from 0 to 1');
+  });
+
+  describe('findResponseSchema', () => {
+    const ok = { type: 'object' };
+    const problem = { $ref: 'ProblemDetails#' };
+    const response = {
+      200: ok,
+      '4xx': {
+        description: 'Client error',
+        content: {
+          'application/problem+json': { schema: problem },
+        },
+      },
+      default: ok,
+    };
+
+    it('should prefer the exact status, then its class, then default', () => {
+      expect(findResponseSchema(response, 200)).toBe(ok);
+      expect(findResponseSchema(response, 404)).toBe(problem);
+      expect(findResponseSchema(response, 503)).toBe(ok);
+      expect(findResponseSchema({ 200: ok }, 201)).toBeUndefined();
+      expect(findResponseSchema(undefined, 200)).toBeUndefined();
+    });
+
+    it('should match content entries by media type', () => {
+      expect(
+        findResponseSchema(
+          response,
+          400,
+          'application/problem+json; charset=utf-8'
+        )
+      ).toBe(problem);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { connect } from 'node:http2';
+
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+
+import { loadAppConfig } from '../../src/config.js';
+import envPlugin from '../../src/plugins/env.js';
+import shutdownPlugin from '../../src/plugins/shutdown.js';
+import { captureLogs, type LogLine } from '../helper.js';
+
+describe('Graceful Shutdown Plugin', () => {
+  let app: FastifyInstance;
+  let lines: LogLine[];
+
+  const buildApp = async (
+    env: Record<string, string> = {},
+    { http2 = false }: { http2?: boolean } = {}
+  ) => {
+    const logs = captureLogs();
+    lines = logs.lines;
+    app = Fastify({
+      logger: { level: 'info', stream: logs.stream },
+      // Cleartext HTTP/2: its server lacks closeAllConnections like the TLS one
+      ...(http2 && { http2: true }),
+    });
+    await app.register(envPlugin, {
+      config: loadAppConfig({ env: { NODE_ENV: 'test', ...env } }),
+    });
+    await app.register(shutdownPlugin);
+    return app;
+  };
+
+  const logEntry = (msg: string) => lines.find(line => line.msg === msg);
+
+  afterEach(async () => {
+    if (!app.isShuttingDown()) await app.close();
+  });
+
+  it('should load the shutdown settings with defaults', async () => {
+    await buildApp({ SHUTDOWN_TIMEOUT: '1000' });
+
+    expect(app.config.SHUTDOWN_DRAIN_TIMEOUT).toBe(10_000);
+    expect(app.config.SHUTDOWN_HOOK_TIMEOUT).toBe(5_000);
+    expect(app.config.SHUTDOWN_TIMEOUT).toBe(1000);
+  });
+
+  it('should reject non-numeric timeouts', () => {
+    expect(() => loadAppConfig({ env: { SHUTDOWN_TIMEOUT: '10s' } })).toThrow(
+      'SHUTDOWN_TIMEOUT from process.env: SHUTDOWN_TIMEOUT must be a whole number of milliseconds'
+    );
+  });
+
+  it('should run shutdown hooks and complete', async () => {
+    await buildApp();
+    const closed: string[] = [];
+    app.onShutdown('database', async () => {
+      closed.push('database');
+    });
+    await app.ready();
+
+    expect(app.isShuttingDown()).toBe(false);
+    const result = await app.shutdown('SIGTERM');
+
+    expect(app.isShuttingDown()).toBe(true);
+    expect(closed).toEqual(['database']);
+    expect(result).toMatchObject({
+      status: 'completed',
+      reason: 'SIGTERM',
+      pendingRequests: [],
+      pendingHooks: [],
+    });
+    expect(logEntry('Graceful shutdown completed')).toBeDefined();
+  });
+
+  it('should return the same result when called twice', async () => {
+    await buildApp();
+    await app.ready();
+
+    const first = app.shutdown('SIGTERM');
+    const second = app.shutdown('SIGINT');
+
+    expect(second).toBe(first);
+    expect((await second).reason).toBe('SIGTERM');
+  });
+
+  it('should abandon hooks that exceed their time limit', async () => {
+    await buildApp();
+    const closed: string[] = [];
+    app.onShutdown('stuck', () => new Promise(() => {}), { timeout: 20 });
+    app.onShutdown('cache', () => {
+      closed.push('cache');
+    });
+    await app.ready();
+
+    const result = await app.shutdown('SIGTERM');
+
+    expect(result.status).toBe('completed');
+    expect(closed).toEqual(['cache']);
+    expect(logEntry('Shutdown hook timed out and was abandoned')).toMatchObject(
+      { hook: 'stuck', timeout: 20 }
+    );
+  });
+
+  it('should log hook failures and keep closing', async () => {
+    await buildApp();
+    app.onShutdown('broken', () => {
+      throw new Error('boom');
+    });
+    await app.ready();
+
+    const result = await app.shutdown('SIGTERM');
+
+    expect(result.status).toBe('completed');
+    expect(logEntry('Shutdown hook failed')).toMatchObject({ hook: 'broken' });
+  });
+
+  it('should give up at the deadline with a summary of pending work', async () => {
+    await buildApp({ SHUTDOWN_TIMEOUT: '50', SHUTDOWN_HOOK_TIMEOUT: '60000' });
+    app.onShutdown('queue', () => new Promise(() => {}));
+    await app.ready();
+
+    const result = await app.shutdown('SIGTERM');
+
+    expect(result.status).toBe('timed-out');
+    expect(result.pendingHooks).toEqual(['queue']);
+    expect(
+      logEntry('Graceful shutdown timed out; work still pending')
+    ).toMatchObject({ pendingHooks: ['queue'] });
+  });
+
+  describe('request draining', () => {
+    const listen = async () => {
+      await app.listen({ port: 0, host: '127.0.0.1' });
+      const address = app.server.address();
+      if (address === null || typeof address === 'string') {
+        throw new Error('Expected a TCP address');
+      }
+      return `http://127.0.0.1:${String(address.port)}`;
+    };
+
+    it('should let in-flight requests finish before closing', async () => {
+      await buildApp();
+      let finish = () => {};
+      let started = () => {};
+      const requestStarted = new Promise<void>(resolve => {
+        started = resolve;
+      });
+      app.get('/slow', async () => {
+        started();
+        await new Promise<void>(resolve => {
+          finish = resolve;
+        });
+        return { done: true };
+      });
+      const url = await listen();
+
+      const response = fetch(`${url}/slow`);
+      await requestStarted;
+      const shutdown = app.shutdown('SIGTERM');
+      finish();
+
+      expect(await (await response).json()).toEqual({ done: true });
+      expect((await shutdown).status).toBe('completed');
+    });
+
+    // Settles once the server cut the request, without a response
+    const cutRequest = (url: string, path: string, http2: boolean) => {
+      if (!http2) {
+        return fetch(`${url}${path}`).then(
+          () => 'answered',
+          () => 'cut'
+        );
+      }
+      const session = connect(url);
+      session.on('error', () => {});
+      const stream = session.request({ ':path': path });
+      stream.on('error', () => {});
+      let answered = false;
+      stream.once('response', () => {
+        answered = true;
+      });
+      return new Promise<string>(resolve => {
+        stream.once('close', () => {
+          session.destroy();
+          resolve(answered ? 'answered' : 'cut');
+        });
+      });
+    };
+
+    it.each([
+      { protocol: 'HTTP/1.1', http2: false },
+      { protocol: 'HTTP/2', http2: true },
+    ])(
+      'should cut $protocol requests still running after the drain timeout',
+      async ({ http2 }) => {
+        await buildApp({ SHUTDOWN_DRAIN_TIMEOUT: '20' }, { http2 });
+        let started = () => {};
+        const requestStarted = new Promise<void>(resolve => {
+          started = resolve;
+        });
+        app.get('/hang', async () => {
+          started();
+          return new Promise(() => {});
+        });
+        const url = await listen();
+
+        const response = cutRequest(url, '/hang?token=abc', http2);
+        await requestStarted;
+        const result = await app.shutdown('SIGTERM');
+
+        expect(result.status).toBe('completed');
+        expect(await response).toBe('cut');
+        expect(
+          logEntry('Drain timeout reached; closing remaining connections')
+        ).toMatchObject({
+          pendingRequests: [{ method: 'GET', url: '/hang?token=[REDACTED]' }],
+        });
+      }
+    );
+  });
+});
@@ -1,6 +1,15 @@
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import type { FastifyInstance } from 'fastify';
-
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+
+import { loadAppConfig } from '../../src/config.js';
+import envPlugin from '../../src/plugins/env.js';
+import errorHandler from '../../src/plugins/error-handler.js';
+import swaggerPlugin, {
+  buildServers,
+  readPackageInfo,
+  type SwaggerPluginOptions,
+} from '../../src/plugins/swagger.js';
+import zodPlugin from '../../src/plugins/zod.js';
 import { build } from '../helper.js';
 import {
   getOpenAPIV3Document,
@@ -28,7 +37,7 @@ describe('Swagger Plugin', () => {
       expect(spec.paths).toBeDefined();
     });
 
-    it('should include correct API metadata', async () => {
+    it('should take the API metadata from package.json', async () => {
       const spec = getOpenAPIV3Document(() => app.swagger());
 
       expect(spec.info.title).toBe('AI Fastify Template API');
@@ -37,12 +46,12 @@ describe('Swagger Plugin', () => {
         'Production-ready Fastify backend API'
       );
       expect(spec.info.contact).toEqual({
-        name: 'Your Name',
-        email: 'your-email@example.com',
+        name: 'Mark Watson',
+        email: 'mark@example.com',
       });
       expect(spec.info.license).toEqual({
         name: 'MIT',
-        url: 'https://opensource.org/licenses/MIT',
+        url: 'https://spdx.org/licenses/MIT.html',
       });
     });
 
@@ -110,7 +119,7 @@ describe('Swagger Plugin', () => {
     it('should include proper tags for organization', async () => {
       const spec = getOpenAPIV3Document(() => app.swagger());
 
-      expect(spec.tags).toHaveLength(2);
+      expect(spec.tags).toHaveLength(3);
       expect(spec.tags).toContainEqual({
         name: 'Root',
         description: 'Root endpoints',
@@ -119,10 +128,15 @@ describe('Swagger Plugin', () => {
         name: 'Example',
         description: 'Example endpoints',
       });
+      expect(spec.tags).toContainEqual({
+        name: 'Health',
+        description: 'Liveness and readiness probes',
+      });
 
       // Check that routes are properly tagged
       expect(spec.paths['/']?.get?.tags).toContain('Root');
       expect(spec.paths['/example/']?.get?.tags).toContain('Example');
+      expect(spec.paths['/health/ready']?.get?.tags).toContain('Health');
     });
 
     it('should include security schemes', async () => {
@@ -144,7 +158,7 @@ describe('Swagger Plugin', () => {
       expect(spec.servers).toHaveLength(1);
       expect(spec.servers?.[0]).toEqual({
         url: 'http://localhost:3000',
-        description: 'Development server',
+        description: 'Test server',
       });
     });
 
@@ -314,4 +328,151 @@ describe('Swagger Plugin', () => {
       }
     });
   });
+
+  describe('Configuration', () => {
+    let docsApp: FastifyInstance;
+
+    afterEach(async () => {
+      await docsApp.close();
+    });
+
+    const setup = async (
+      env: Record<string, string>,
+      options: SwaggerPluginOptions = {}
+    ): Promise<void> => {
+      docsApp = Fastify({ logger: false });
+      await docsApp.register(envPlugin, {
+        config: loadAppConfig({ env: { NODE_ENV: 'test', ...env } }),
+      });
+      await docsApp.register(errorHandler);
+      await docsApp.register(zodPlugin);
+      await docsApp.register(swaggerPlugin, options);
+      await docsApp.ready();
+    };
+
+    const getDocs = (authorization?: string) =>
+      docsApp.inject({
+        method: 'GET',
+        url: '/docs/json',
+        ...(authorization !== undefined && { headers: { authorization } }),
+      });
+
+    it('should hide the docs where the profile does not expose them', async () => {
+      await setup({ APP_ENV: 'production' });
+
+      expect((await getDocs()).statusCode).toBe(404);
+      expect(docsApp.swagger()).toHaveProperty('openapi', '3.0.0');
+    });
+
+    it('should turn the docs off or on explicitly', async () => {
+      await setup({ DOCS_ACCESS: 'off' });
+      expect((await getDocs()).statusCode).toBe(404);
+      await docsApp.close();
+
+      await setup({ APP_ENV: 'production', DOCS_ACCESS: 'public' });
+      expect((await getDocs()).statusCode).toBe(200);
+    });
+
+    it('should require basic credentials for every docs route', async () => {
+      await setup({
+        APP_ENV: 'production',
+        DOCS_ACCESS: 'basic',
+        DOCS_USERNAME: 'docs',
+        DOCS_PASSWORD: 's3cret',
+      });
+      const valid = `Basic ${Buffer.from('docs:s3cret').toString('base64')}`;
+      const wrong = `Basic ${Buffer.from('docs:guess').toString('base64')}`;
+
+      const missing = await getDocs();
+      expect(missing.statusCode).toBe(401);
+      expect(missing.headers['www-authenticate']).toBe(
+        'Basic realm="API documentation", charset="UTF-8"'
+      );
+      expect(missing.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+      expect((await getDocs(wrong)).statusCode).toBe(401);
+      expect((await getDocs(valid)).statusCode).toBe(200);
+
+      const ui = await docsApp.inject({ method: 'GET', url: '/docs' });
+      expect(ui.statusCode).toBe(401);
+    });
+
+    it('should require the bearer token', async () => {
+      await setup({ DOCS_ACCESS: 'bearer', DOCS_TOKEN: 'docs-token' });
+
+      const missing = await getDocs();
+      expect(missing.statusCode).toBe(401);
+      expect(missing.headers['www-authenticate']).toBe(
+        'Bearer realm="API documentation"'
+      );
+      expect((await getDocs('Bearer other')).statusCode).toBe(401);
+      expect((await getDocs('Bearer docs-token')).statusCode).toBe(200);
+    });
+
+    it('should reject protected access without credentials', () => {
+      expect(() =>
+        loadAppConfig({ env: { DOCS_ACCESS: 'basic', DOCS_USERNAME: 'docs' } })
+      ).toThrow('DOCS_PASSWORD is required when DOCS_ACCESS is basic');
+      expect(() => loadAppConfig({ env: { DOCS_ACCESS: 'bearer' } })).toThrow(
+        'DOCS_TOKEN is required when DOCS_ACCESS is bearer'
+      );
+      expect(() => loadAppConfig({ env: { DOCS_ACCESS: 'private' } })).toThrow(
+        'DOCS_ACCESS must be one of: off, public, basic, bearer'
+      );
+    });
+
+    it('should list the servers of the environment', () => {
+      const publicUrl = 'https://api.staging.example.com';
+
+      expect(buildServers({ PORT: 8080 }, 'development')).toEqual([
+        { url: 'http://localhost:8080', description: 'Development server' },
+      ]);
+      expect(
+        buildServers({ PORT: 8080, API_PUBLIC_URL: publicUrl }, 'staging')
+      ).toEqual([{ url: publicUrl, description: 'Staging server' }]);
+      expect(
+        buildServers(
+          { PORT: 8443, API_PUBLIC_URL: publicUrl, TLS_CERT_FILE: 'cert.pem' },
+          'test'
+        )
+      ).toEqual([
+        { url: publicUrl, description: 'Test server' },
+        { url: 'https://localhost:8443', description: 'Test server' },
+      ]);
+      expect(buildServers({ PORT: 8080 }, 'production')).toEqual([]);
+    });
+
+    it('should document the public URL', async () => {
+      await setup({ API_PUBLIC_URL: 'https://api.example.com' });
+
+      expect(
+        getOpenAPIV3Document(() => docsApp.swagger()).servers?.[0]
+      ).toEqual({ url: 'https://api.example.com', description: 'Test server' });
+    });
+
+    it('should take the title and tags from the plugin options', async () => {
+      await setup(
+        {},
+        { title: 'Orders API', tags: [{ name: 'Orders' }, { name: 'Refunds' }] }
+      );
+
+      const spec = getOpenAPIV3Document(() => docsApp.swagger());
+      expect(spec.info.title).toBe('Orders API');
+      expect(spec.tags).toEqual([{ name: 'Orders' }, { name: 'Refunds' }]);
+      await docsApp.close();
+
+      await setup({});
+      expect(getOpenAPIV3Document(() => docsApp.swagger()).info.title).toBe(
+        'backend-api'
+      );
+    });
+
+    it('should read the service package.json', () => {
+      expect(readPackageInfo()).toMatchObject({
+        name: 'backend-api',
+        version: '1.0.0',
+        license: 'MIT',
+        author: { name: 'Mark Watson' },
+      });
+    });
+  });
 });
@@ -0,0 +1,218 @@
+import { execFileSync } from 'node:child_process';
+import { copyFileSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { connect } from 'node:tls';
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+
+import { loadAppConfig } from '../../src/config.js';
+import envPlugin from '../../src/plugins/env.js';
+import tlsPlugin, { createTlsServerOptions } from '../../src/plugins/tls.js';
+
+// Test certificates are generated on the fly so no private key is committed
+const hasOpenssl = (() => {
+  try {
+    execFileSync('openssl', ['version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe.skipIf(!hasOpenssl)('TLS Plugin', () => {
+  let dir: string;
+  let app: FastifyInstance | undefined;
+  const certFile = () => join(dir, 'tls.crt');
+  const keyFile = () => join(dir, 'tls.key');
+
+  const createCertificate = (name: string): void => {
+    execFileSync(
+      'openssl',
+      [
+        'req',
+        '-x509',
+        '-newkey',
+        'ec',
+        '-pkeyopt',
+        'ec_paramgen_curve:prime256v1',
+        '-nodes',
+        '-days',
+        '1',
+        '-subj',
+        `/CN=${name}`,
+        '-keyout',
+        join(dir, `${name}.key`),
+        '-out',
+        join(dir, `${name}.crt`),
+      ],
+      { stdio: 'ignore' }
+    );
+  };
+
+  const useCertificate = (name: string): void => {
+    copyFileSync(join(dir, `${name}.crt`), certFile());
+    copyFileSync(join(dir, `${name}.key`), keyFile());
+  };
+
+  const loadConfig = (env: Record<string, string> = {}) =>
+    loadAppConfig({
+      env: {
+        NODE_ENV: 'test',
+        TLS_CERT_FILE: certFile(),
+        TLS_KEY_FILE: keyFile(),
+        ...env,
+      },
+    });
+
+  const start = async (env: Record<string, string> = {}): Promise<number> => {
+    const loaded = loadConfig(env);
+    app = Fastify({ logger: false, ...createTlsServerOptions(loaded.config) });
+    await app.register(envPlugin, { config: loaded });
+    await app.register(tlsPlugin);
+    app.get('/', async () => ({ ok: true }));
+    await app.listen({ port: 0, host: '127.0.0.1' });
+
+    const address = app.server.address();
+    if (address === null || typeof address === 'string') {
+      throw new Error('Expected a TCP address');
+    }
+    return address.port;
+  };
+
+  // Opens a TLS connection and reports the served certificate and protocol
+  const handshake = (port: number, ALPNProtocols?: string[]) =>
+    new Promise<{ name: string | undefined; protocol: string | false | null }>(
+      (resolve, reject) => {
+        const socket = connect(
+          {
+            port,
+            host: '127.0.0.1',
+            rejectUnauthorized: false,
+            ...(ALPNProtocols !== undefined && { ALPNProtocols }),
+          },
+          () => {
+            const name = socket.getPeerCertificate().subject.CN;
+            resolve({ name, protocol: socket.alpnProtocol });
+            socket.end();
+          }
+        );
+        socket.on('error', reject);
+      }
+    );
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tls-'));
+    createCertificate('first');
+    createCertificate('second');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+    useCertificate('first');
+  });
+
+  beforeEach(() => {
+    useCertificate('first');
+  });
+
+  describe('configuration', () => {
+    it('should keep plain HTTP when no certificate is configured', () => {
+      const { config } = loadAppConfig({ env: { NODE_ENV: 'test' } });
+
+      expect(config.HTTP2).toBe(false);
+      expect(createTlsServerOptions(config)).toEqual({});
+    });
+
+    it('should require the certificate and key together', () => {
+      expect(() =>
+        loadAppConfig({ env: { TLS_CERT_FILE: certFile() } })
+      ).toThrow(
+        'TLS_KEY_FILE from default: TLS_KEY_FILE is required when TLS_CERT_FILE is set'
+      );
+    });
+
+    it('should require TLS for HTTP/2', () => {
+      expect(() => loadAppConfig({ env: { HTTP2: 'true' } })).toThrow(
+        'HTTP2 from process.env: HTTP2 requires TLS_CERT_FILE and TLS_KEY_FILE'
+      );
+    });
+
+    it('should reject unreadable certificate files', () => {
+      expect(() =>
+        loadConfig({ TLS_CA_FILE: join(dir, 'missing.pem') })
+      ).toThrow(
+        `TLS_CA_FILE from process.env: TLS_CA_FILE points to a file that cannot be read: ${join(dir, 'missing.pem')} (ENOENT)`
+      );
+    });
+
+    it('should allow HTTP/1.1 fallback in HTTP/2 mode', () => {
+      const { config } = loadConfig({ HTTP2: 'true' });
+
+      expect(createTlsServerOptions(config)).toMatchObject({
+        http2: true,
+        https: { allowHTTP1: true },
+      });
+    });
+  });
+
+  it('should serve HTTPS', async () => {
+    const port = await start();
+
+    const response = await handshake(port);
+
+    expect(response.name).toBe('first');
+  });
+
+  it('should negotiate HTTP/2 with HTTP/1.1 fallback', async () => {
+    const port = await start({ HTTP2: 'true' });
+
+    expect((await handshake(port, ['h2', 'http/1.1'])).protocol).toBe('h2');
+    expect((await handshake(port, ['http/1.1'])).protocol).toBe('http/1.1');
+  });
+
+  it('should swap certificates on reload', async () => {
+    const port = await start();
+
+    useCertificate('second');
+    expect(app?.reloadTlsCertificates()).toBe(true);
+
+    expect((await handshake(port)).name).toBe('second');
+  });
+
+  it('should keep the current certificates when the new ones are invalid', async () => {
+    const port = await start();
+
+    writeFileSync(keyFile(), 'not a key');
+    expect(app?.reloadTlsCertificates()).toBe(false);
+
+    expect((await handshake(port)).name).toBe('first');
+  });
+
+  it('should reload certificates when the files change', async () => {
+    const port = await start();
+
+    useCertificate('second');
+
+    let name: string | undefined;
+    for (let i = 0; i < 50 && name !== 'second'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      name = (await handshake(port)).name;
+    }
+    expect(name).toBe('second');
+  });
+});
@@ -0,0 +1,331 @@
+import {
+  createFastifySchema,
+  ExampleApiSchemas,
+  ZodBrandedSchemas,
+  type UserId,
+} from '@ai-fastify-template/types';
+import { describe, it, expect, expectTypeOf, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+import { loadAppConfig } from '../../src/config.js';
+import envPlugin from '../../src/plugins/env.js';
+import errorHandler from '../../src/plugins/error-handler.js';
+import swaggerPlugin from '../../src/plugins/swagger.js';
+import zodPlugin, {
+  toJsonSchema,
+  withExample,
+  type ZodTypeProvider,
+} from '../../src/plugins/zod.js';
+import { getOpenAPIV3Document } from '../utils/openapi-types.js';
+
+const OrderSchema = z.object({
+  id: ZodBrandedSchemas.OrderId,
+  total: withExample(z.number().nonnegative(), 42),
+});
+
+describe('Zod Plugin', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const setup = async (
+    routes: (instance: FastifyInstance) => void
+  ): Promise<void> => {
+    app = Fastify({ logger: false });
+    await app.register(envPlugin, {
+      config: loadAppConfig({ env: { NODE_ENV: 'test' } }),
+    });
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
+    await app.register(swaggerPlugin);
+    routes(app);
+    await app.ready();
+  };
+
+  const setupOrders = (): Promise<void> =>
+    setup(instance => {
+      instance.withTypeProvider<ZodTypeProvider>().post(
+        '/customers/:customerId/orders',
+        {
+          schema: {
+            params: z.object({ customerId: ZodBrandedSchemas.CustomerId }),
+            querystring: z.object({ dryRun: z.enum(['true', 'false']) }),
+            body: z.object({ total: z.number().nonnegative() }),
+            response: { 201: OrderSchema.describe('Order created') },
+          },
+        },
+        async (request, reply) => {
+          expectTypeOf(request.body.total).toEqualTypeOf<number>();
+          expectTypeOf(request.query.dryRun).toEqualTypeOf<'true' | 'false'>();
+
+          return reply.code(201).send({
+            id: ZodBrandedSchemas.OrderId.parse(
+              '550e8400-e29b-41d4-a716-446655440000'
+            ),
+            total: request.body.total,
+            // Not declared: must not reach the client
+            internalNote: request.params.customerId,
+          } as z.output<typeof OrderSchema>);
+        }
+      );
+    });
+
+  describe('validation', () => {
+    it('should parse request parts with their Zod schemas', async () => {
+      await setupOrders();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/customers/7c9e6679-7425-40de-944b-e07fc1f90ae7/orders?dryRun=true',
+        payload: { total: 10 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual({
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        total: 10,
+      });
+    });
+
+    it('should report Zod failures as violations', async () => {
+      await setupOrders();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/customers/7c9e6679-7425-40de-944b-e07fc1f90ae7/orders?dryRun=maybe',
+        payload: { total: 1 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        violations: [
+          {
+            path: 'querystring.dryRun',
+            code: 'invalid_enum_value',
+          },
+        ],
+      });
+    });
+
+    it('should reject invalid branded params', async () => {
+      await setupOrders();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/customers/not-a-uuid/orders?dryRun=true',
+        payload: { total: 1 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        violations: [{ path: 'params.customerId', code: 'invalid_string' }],
+      });
+      expect(response.payload).not.toContain('not-a-uuid');
+    });
+
+    it('should give handlers branded types', async () => {
+      await setup(instance => {
+        instance.withTypeProvider<ZodTypeProvider>().get(
+          '/users/:userId',
+          {
+            schema: createFastifySchema({
+              params: ExampleApiSchemas.GetUserParams,
+            }),
+          },
+          async request => {
+            expectTypeOf(request.params).toEqualTypeOf<{ userId: UserId }>();
+            return { id: request.params.userId };
+          }
+        );
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/users/7c9e6679-7425-40de-944b-e07fc1f90ae7',
+      });
+
+      expect(response.json()).toEqual({
+        id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+      });
+    });
+
+    it('should coerce query strings to the schema', async () => {
+      await setup(instance => {
+        instance
+          .withTypeProvider<ZodTypeProvider>()
+          .get(
+            '/orders',
+            { schema: { querystring: ExampleApiSchemas.GetOrdersQuery } },
+            async request => {
+              expectTypeOf(request.query.page).toEqualTypeOf<number>();
+              return request.query;
+            }
+          );
+      });
+
+      const ok = await app.inject({
+        method: 'GET',
+        url: '/orders?page=2&status=shipped',
+      });
+      const invalid = await app.inject({
+        method: 'GET',
+        url: '/orders?page=two',
+      });
+
+      expect(ok.statusCode).toBe(200);
+      expect(ok.json()).toEqual({ page: 2, pageSize: 20, status: 'shipped' });
+      expect(invalid.statusCode).toBe(400);
+      expect(invalid.json()).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        violations: [{ path: 'querystring.page', code: 'invalid_type' }],
+      });
+    });
+
+    it('should parse bracketed and repeated query keys', async () => {
+      await setup(instance => {
+        instance.withTypeProvider<ZodTypeProvider>().get(
+          '/search',
+          {
+            schema: {
+              querystring: z.object({
+                status: z.array(z.string()),
+                filter: z.object({ min: z.number(), open: z.boolean() }),
+              }),
+            },
+          },
+          async request => request.query
+        );
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/search?status=a&status=b,c&filter[min]=3&filter[open]=true',
+      });
+
+      expect(response.json()).toEqual({
+        status: ['a', 'b', 'c'],
+        filter: { min: 3, open: true },
+      });
+    });
+
+    it('should leave JSON Schema routes to Ajv', async () => {
+      await setup(instance => {
+        instance.post(
+          '/json',
+          {
+            schema: {
+              body: {
+                type: 'object',
+                properties: { name: { type: 'string' } },
+                required: ['name'],
+              },
+            },
+          },
+          async () => ({ ok: true })
+        );
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/json',
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({
+        violations: [{ path: 'body.name', code: 'required' }],
+      });
+    });
+
+    it('should reject routes mixing Zod and JSON Schema', async () => {
+      await expect(
+        setup(instance => {
+          instance.post(
+            '/mixed',
+            {
+              schema: {
+                params: z.object({ id: z.string() }),
+                body: { type: 'object' },
+              },
+            },
+            async () => ({ ok: true })
+          );
+        })
+      ).rejects.toThrow(
+        'POST /mixed mixes Zod and JSON Schema: body must be a Zod schema too'
+      );
+    });
+  });
+
+  describe('documentation', () => {
+    it('should document the JSON Schema of every part', async () => {
+      await setupOrders();
+
+      const spec = getOpenAPIV3Document(() => app.swagger());
+      const operation = spec.paths['/customers/{customerId}/orders']?.post;
+
+      expect(operation?.parameters).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            in: 'path',
+            name: 'customerId',
+            required: true,
+            schema: { type: 'string', format: 'uuid' },
+          }),
+          expect.objectContaining({
+            in: 'query',
+            name: 'dryRun',
+            required: true,
+            schema: { type: 'string', enum: ['true', 'false'] },
+          }),
+        ])
+      );
+      expect(operation?.responses['201']).toEqual({
+        description: 'Order created',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                total: { type: 'number', minimum: 0, example: 42 },
+              },
+              required: ['id', 'total'],
+              description: 'Order created',
+            },
+          },
+        },
+      });
+    });
+
+    it('should write exclusive integer bounds as inclusive ones', () => {
+      expect(toJsonSchema(z.number().int().positive().lt(10))).toEqual({
+        type: 'integer',
+        minimum: 1,
+        maximum: 9,
+      });
+    });
+
+    it('should convert strict objects and optional fields', () => {
+      expect(
+        toJsonSchema(
+          z
+            .object({ name: z.string(), nickname: z.string().optional() })
+            .strict()
+        )
+      ).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          nickname: { type: 'string' },
+        },
+        required: ['name'],
+        additionalProperties: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { ExampleApiSchemas } from '@ai-fastify-template/types';
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+
+import { coerceQuery, expandBrackets } from '../src/query.js';
+
+describe('Query coercion', () => {
+  describe('coerceQuery', () => {
+    it('should coerce numbers, booleans and dates', () => {
+      const schema = z.object({
+        page: z.number().int(),
+        archived: z.boolean(),
+        since: z.date(),
+        until: z.date().optional(),
+        limit: z.literal(10),
+      });
+
+      expect(
+        coerceQuery(schema, {
+          page: '2',
+          archived: 'false',
+          since: '2024-01-31T00:00:00.000Z',
+          until: '1706659200000',
+          limit: '10',
+        })
+      ).toEqual({
+        page: 2,
+        archived: false,
+        since: new Date('2024-01-31T00:00:00.000Z'),
+        until: new Date(1706659200000),
+        limit: 10,
+      });
+    });
+
+    it('should accept repeated keys and comma-separated arrays', () => {
+      const schema = z.object({
+        status: z.array(z.enum(['open', 'closed'])),
+        ids: z.array(z.number()),
+      });
+
+      expect(
+        coerceQuery(schema, { status: ['open', 'closed'], ids: '1,2' })
+      ).toEqual({ status: ['open', 'closed'], ids: [1, 2] });
+      expect(coerceQuery(schema, { status: 'open', ids: '3' })).toEqual({
+        status: ['open'],
+        ids: [3],
+      });
+    });
+
+    it('should look through optional, default and effect wrappers', () => {
+      const result = ExampleApiSchemas.GetOrdersQuery.safeParse(
+        coerceQuery(ExampleApiSchemas.GetOrdersQuery, {
+          page: '2',
+          status: 'shipped',
+        })
+      );
+
+      expect(result.success && result.data).toEqual({
+        page: 2,
+        pageSize: 20,
+        status: 'shipped',
+      });
+      expect(
+        coerceQuery(z.object({ n: z.number().pipe(z.number().min(1)) }), {
+          n: '5',
+        })
+      ).toEqual({ n: 5 });
+    });
+
+    it('should pick the union option the value fits', () => {
+      const schema = z.object({
+        limit: z.union([z.number(), z.literal('all')]),
+      });
+
+      expect(coerceQuery(schema, { limit: '5' })).toEqual({ limit: 5 });
+      expect(coerceQuery(schema, { limit: 'all' })).toEqual({ limit: 'all' });
+    });
+
+    it('should leave values it cannot convert for Zod to report', () => {
+      const schema = z.object({
+        page: z.number(),
+        archived: z.boolean(),
+        since: z.date(),
+      });
+      const query = { page: 'two', archived: 'maybe', since: 'yesterday' };
+
+      expect(coerceQuery(schema, query)).toEqual(query);
+      expect(
+        schema.safeParse(coerceQuery(schema, query)).error?.issues
+      ).toEqual([
+        expect.objectContaining({ path: ['page'], code: 'invalid_type' }),
+        expect.objectContaining({ path: ['archived'], code: 'invalid_type' }),
+        expect.objectContaining({ path: ['since'], code: 'invalid_type' }),
+      ]);
+    });
+
+    it('should keep keys the schema does not describe', () => {
+      expect(coerceQuery(z.object({}).passthrough(), { extra: '1' })).toEqual({
+        extra: '1',
+      });
+    });
+  });
+
+  describe('expandBrackets', () => {
+    it('should nest bracketed keys', () => {
+      expect(
+        expandBrackets({
+          'filter[status]': 'open',
+          'filter[total][min]': '10',
+          'ids[]': ['1', '2'],
+          'tags[]': 'a',
+          'items[1]': 'b',
+          'items[0]': 'a',
+          plain: 'x',
+        })
+      ).toEqual({
+        filter: { status: 'open', total: { min: '10' } },
+        ids: ['1', '2'],
+        tags: ['a'],
+        items: { 0: 'a', 1: 'b' },
+        plain: 'x',
+      });
+    });
+
+    it('should coerce nested values and indexed arrays', () => {
+      const schema = z.object({
+        filter: z.object({ total: z.object({ min: z.number() }) }),
+        items: z.array(z.number()),
+      });
+
+      expect(
+        coerceQuery(schema, {
+          'filter[total][min]': '10',
+          'items[1]': '2',
+          'items[0]': '1',
+        })
+      ).toEqual({ filter: { total: { min: 10 } }, items: [1, 2] });
+    });
+
+    it('should ignore keys reaching the object prototype', () => {
+      const expanded = expandBrackets({
+        '__proto__[polluted]': 'yes',
+        'a[constructor][prototype][polluted]': 'yes',
+      });
+
+      expect(expanded).toEqual({});
+      expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  ExampleApiSchemas,
+  ZodBrandedSchemas,
+  type UserId,
+} from '@ai-fastify-template/types';
+import { describe, it, expect, expectTypeOf, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+import { loadAppConfig } from '../src/config.js';
+import { defineError } from '../src/errors.js';
+import envPlugin from '../src/plugins/env.js';
+import errorHandler, { errorResponses } from '../src/plugins/error-handler.js';
+import zodPlugin from '../src/plugins/zod.js';
+import { defineRoute } from '../src/route.js';
+
+const UserNotFound = defineError(
+  'ROUTE_TEST_USER_NOT_FOUND',
+  404,
+  'The user does not exist'
+);
+
+const UserSchema = z.object({
+  id: ZodBrandedSchemas.UserId,
+  name: z.string(),
+});
+
+const getUser = defineRoute({
+  method: 'GET',
+  url: '/users/:userId',
+  schema: {
+    params: ExampleApiSchemas.GetUserParams,
+    response: {
+      200: UserSchema,
+      202: z.object({ queued: z.boolean() }),
+      ...errorResponses(UserNotFound),
+    },
+  },
+  handler: async (request, reply) => {
+    const { userId } = request.params;
+    expectTypeOf(userId).toEqualTypeOf<UserId>();
+
+    if (userId === '00000000-0000-4000-8000-000000000000') {
+      throw new UserNotFound();
+    }
+    if (userId === '00000000-0000-4000-8000-000000000001') {
+      return reply.code(202).send({ queued: true });
+    }
+    return reply.code(200).send({ id: userId, name: 'Ada' });
+  },
+});
+
+describe('defineRoute', () => {
+  let app: FastifyInstance;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const setup = async (): Promise<void> => {
+    app = Fastify({ logger: false });
+    await app.register(envPlugin, {
+      config: loadAppConfig({ env: { NODE_ENV: 'test' } }),
+    });
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
+    await app.register(getUser, { prefix: '/v1' });
+    await app.ready();
+  };
+
+  it('should register the route as a plugin', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/users/7c9e6679-7425-40de-944b-e07fc1f90ae7',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      id: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+      name: 'Ada',
+    });
+  });
+
+  it('should reply with the chosen status and its schema', async () => {
+    await setup();
+
+    const queued = await app.inject({
+      method: 'GET',
+      url: '/v1/users/00000000-0000-4000-8000-000000000001',
+    });
+    const missing = await app.inject({
+      method: 'GET',
+      url: '/v1/users/00000000-0000-4000-8000-000000000000',
+    });
+
+    expect(queued.statusCode).toBe(202);
+    expect(queued.json()).toEqual({ queued: true });
+    expect(missing.statusCode).toBe(404);
+    expect(missing.json()).toMatchObject({ code: 'ROUTE_TEST_USER_NOT_FOUND' });
+  });
+
+  it('should validate params with the branded schema', async () => {
+    await setup();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/v1/users/not-a-uuid',
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({
+      violations: [{ path: 'params.userId' }],
+    });
+  });
+
+  it('should expose the definition', () => {
+    expect(getUser.route.url).toBe('/users/:userId');
+    expect(getUser.route.schema.response[200]).toBe(UserSchema);
+  });
+
+  it('should type-check replies per status', () => {
+    defineRoute({
+      method: 'POST',
+      url: '/users',
+      schema: {
+        body: ExampleApiSchemas.CreateUserBody,
+        response: { 201: UserSchema },
+      },
+      handler: async (request, reply) => {
+        expectTypeOf(request.body.email).toEqualTypeOf<
+          z.output<typeof ZodBrandedSchemas.EmailAddress>
+        >();
+
+        // @ts-expect-error - 200 is not a declared status
+        reply.code(200);
+        // @ts-expect-error - `id` must be a UserId, not any string
+        reply.code(201).send({ id: 'plain string', name: 'Ada' });
+
+        return reply.code(201).send(UserSchema.parse({}));
+      },
+    });
+  });
+});
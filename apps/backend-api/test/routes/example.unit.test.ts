@@ -3,6 +3,9 @@ import Fastify, { type FastifyInstance } from 'fastify';
 
 // Direct import of the example route to ensure mutation coverage
 import exampleRoute from '../../src/routes/example/index.js';
+import envPlugin from '../../src/plugins/env.js';
+import errorHandler from '../../src/plugins/error-handler.js';
+import zodPlugin from '../../src/plugins/zod.js';
 
 describe('Example Route Unit Tests', () => {
   let app: FastifyInstance;
@@ -15,6 +18,9 @@ describe('Example Route Unit Tests', () => {
 
   it('should register example route successfully', async () => {
     app = Fastify({ logger: false });
+    await app.register(envPlugin);
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
     await app.register(exampleRoute);
     await app.ready();
 
@@ -29,6 +35,9 @@ describe('Example Route Unit Tests', () => {
 
   it('should return JSON response', async () => {
     app = Fastify({ logger: false });
+    await app.register(envPlugin);
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
     await app.register(exampleRoute);
     await app.ready();
 
@@ -44,6 +53,9 @@ describe('Example Route Unit Tests', () => {
 
   it('should handle string return value', async () => {
     app = Fastify({ logger: false });
+    await app.register(envPlugin);
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
     await app.register(exampleRoute);
     await app.ready();
 
@@ -0,0 +1,116 @@
+import { type FastifyInstance } from 'fastify';
+import { describe, it, expect, afterEach } from 'vitest';
+
+import { loadAppConfig } from '../../src/config.js';
+import { build } from '../helper.js';
+import { getOpenAPIV3Document } from '../utils/openapi-types.js';
+
+describe('Health routes', () => {
+  let app: FastifyInstance;
+
+  const buildApp = (env: Record<string, string> = {}) =>
+    build({
+      config: loadAppConfig({
+        env: { NODE_ENV: 'test', HEALTH_CACHE_TTL: '0', ...env },
+      }),
+    });
+
+  afterEach(async () => {
+    if (!app.isShuttingDown()) await app.close();
+  });
+
+  describe('GET /health/live', () => {
+    it('should report the process as alive', async () => {
+      app = await buildApp();
+      app.health.register('database', () => {
+        throw new Error('down');
+      });
+
+      const response = await app.inject({ url: '/health/live' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ status: 'ok' });
+    });
+  });
+
+  describe('GET /health/ready', () => {
+    it('should report ready with the check breakdown', async () => {
+      app = await buildApp();
+      app.health.register('database', async () => {});
+
+      const response = await app.inject({ url: '/health/ready' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        status: 'ok',
+        checks: { database: { status: 'ok', critical: true } },
+      });
+    });
+
+    it('should return 503 when a critical check fails', async () => {
+      app = await buildApp();
+      app.health.register('database', () => {
+        throw new Error('connection refused');
+      });
+
+      const response = await app.inject({ url: '/health/ready' });
+
+      expect(response.statusCode).toBe(503);
+      expect(response.json()).toMatchObject({
+        status: 'error',
+        checks: { database: { status: 'error', error: 'connection refused' } },
+      });
+    });
+
+    it('should stay ready when only non-critical checks fail', async () => {
+      app = await buildApp();
+      app.health.register(
+        'cache',
+        () => {
+          throw new Error('down');
+        },
+        { critical: false }
+      );
+
+      const response = await app.inject({ url: '/health/ready' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().status).toBe('degraded');
+    });
+
+    it('should hide the breakdown where the environment restricts it', async () => {
+      app = await buildApp({ APP_ENV: 'production' });
+      app.health.register('database', () => {
+        throw new Error('password authentication failed');
+      });
+
+      const response = await app.inject({ url: '/health/ready' });
+
+      expect(response.statusCode).toBe(503);
+      expect(response.json()).toEqual({
+        status: 'error',
+        checkedAt: expect.any(String),
+      });
+    });
+
+    it('should return 503 once shutdown has started', async () => {
+      app = await buildApp();
+      const ready = app.inject({ url: '/health/ready' });
+      // The injected probe is handled after shutdown has begun
+      const shutdown = app.shutdown('SIGTERM');
+
+      expect((await ready).statusCode).toBe(503);
+      await shutdown;
+    });
+  });
+
+  it('should document the health routes in the OpenAPI spec', async () => {
+    app = await buildApp();
+    const spec = getOpenAPIV3Document(() => app.swagger());
+
+    expect(spec.paths['/health/live']?.get?.tags).toEqual(['Health']);
+    expect(
+      Object.keys(spec.paths['/health/ready']?.get?.responses ?? {})
+    ).toEqual(['200', '500', '503']);
+  });
+});
@@ -3,6 +3,9 @@ import Fastify, { type FastifyInstance } from 'fastify';
 
 // Direct import of the root route to ensure mutation coverage
 import rootRoute from '../../src/routes/root.js';
+import envPlugin from '../../src/plugins/env.js';
+import errorHandler from '../../src/plugins/error-handler.js';
+import zodPlugin from '../../src/plugins/zod.js';
 
 describe('Root Route Unit Tests', () => {
   let app: FastifyInstance;
@@ -15,6 +18,9 @@ describe('Root Route Unit Tests', () => {
 
   it('should register root route successfully', async () => {
     app = Fastify({ logger: false });
+    await app.register(envPlugin);
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
     await app.register(rootRoute);
     await app.ready();
 
@@ -32,6 +38,9 @@ describe('Root Route Unit Tests', () => {
 
   it('should return correct message format', async () => {
     app = Fastify({ logger: false });
+    await app.register(envPlugin);
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
     await app.register(rootRoute);
     await app.ready();
 
@@ -48,6 +57,9 @@ describe('Root Route Unit Tests', () => {
 
   it('should handle GET request to root path', async () => {
     app = Fastify({ logger: false });
+    await app.register(envPlugin);
+    await app.register(errorHandler);
+    await app.register(zodPlugin);
     await app.register(rootRoute);
     await app.ready();
 
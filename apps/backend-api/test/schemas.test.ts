@@ -0,0 +1,207 @@
+import {
+  createPaginatedResponseSchema,
+  ZodBrandedSchemas,
+} from '@ai-fastify-template/types';
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { z } from 'zod';
+
+import { loadAppConfig } from '../src/config.js';
+import envPlugin from '../src/plugins/env.js';
+import errorHandler from '../src/plugins/error-handler.js';
+import schemasPlugin from '../src/plugins/schemas.js';
+import swaggerPlugin from '../src/plugins/swagger.js';
+import zodPlugin, {
+  toJsonSchema,
+  type ZodTypeProvider,
+} from '../src/plugins/zod.js';
+import { defineSchema, HealthReport, sharedSchemas } from '../src/schemas.js';
+import { getOpenAPIV3Document } from './utils/openapi-types.js';
+
+const SchemaTestOrder = defineSchema(
+  'SchemaTestOrder',
+  z.object({ id: ZodBrandedSchemas.OrderId, total: z.number() })
+);
+const SchemaTestOrderPage = defineSchema(
+  'SchemaTestOrderPage',
+  createPaginatedResponseSchema(SchemaTestOrder)
+);
+const SchemaTestMoney = defineSchema('SchemaTestMoney', {
+  type: 'object',
+  properties: { amount: { type: 'integer' }, currency: { type: 'string' } },
+  required: ['amount', 'currency'],
+});
+
+const ORDER_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('Shared schemas', () => {
+  describe('defineSchema', () => {
+    it('should return Zod schemas as they are', () => {
+      expect(
+        sharedSchemas().find(([name]) => name === 'SchemaTestOrder')?.[1]
+      ).toBe(SchemaTestOrder);
+    });
+
+    it('should return a reference to JSON Schemas', () => {
+      expect(SchemaTestMoney).toEqual({ $ref: 'SchemaTestMoney#' });
+    });
+
+    it('should register the entity IDs and the health report', () => {
+      const names = sharedSchemas().map(([name]) => name);
+
+      expect(names).toEqual(
+        expect.arrayContaining(['UserId', 'OrderId', 'EmailAddress'])
+      );
+      expect(names).toContain('HealthReport');
+    });
+
+    it('should reject bad and duplicate names', () => {
+      expect(() => defineSchema('order_page', z.string())).toThrow(
+        'Schema name order_page must be PascalCase'
+      );
+      expect(() => defineSchema('UserId', z.string())).toThrow(
+        'Schema UserId is already defined'
+      );
+    });
+  });
+
+  describe('conversion', () => {
+    it('should reference shared schemas wherever they appear', () => {
+      expect(
+        toJsonSchema(
+          z.object({
+            order: SchemaTestOrder,
+            customerId: ZodBrandedSchemas.CustomerId.optional(),
+          })
+        )
+      ).toEqual({
+        type: 'object',
+        properties: {
+          order: { $ref: 'SchemaTestOrder#' },
+          customerId: { $ref: 'CustomerId#' },
+        },
+        required: ['order'],
+      });
+    });
+
+    it('should keep the description of a described shared schema', () => {
+      expect(toJsonSchema(HealthReport)).toEqual({
+        $ref: 'HealthReport#',
+        description: 'Result of the readiness checks',
+      });
+      expect(toJsonSchema(HealthReport.describe('Ready'))).toEqual({
+        $ref: 'HealthReport#',
+        description: 'Ready',
+      });
+    });
+
+    it('should inline the schema itself when registering it', () => {
+      expect(toJsonSchema(SchemaTestOrder, { inline: true })).toEqual({
+        type: 'object',
+        properties: {
+          id: { $ref: 'OrderId#' },
+          total: { type: 'number' },
+        },
+        required: ['id', 'total'],
+      });
+    });
+  });
+
+  describe('plugin', () => {
+    let app: FastifyInstance;
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    const setup = async (): Promise<void> => {
+      app = Fastify({ logger: false });
+      await app.register(envPlugin, {
+        config: loadAppConfig({ env: { NODE_ENV: 'test' } }),
+      });
+      await app.register(errorHandler);
+      await app.register(zodPlugin);
+      await app.register(schemasPlugin);
+      await app.register(swaggerPlugin);
+
+      app.withTypeProvider<ZodTypeProvider>().get(
+        '/orders/:orderId',
+        {
+          schema: {
+            params: z.object({ orderId: ZodBrandedSchemas.OrderId }),
+            response: { 200: SchemaTestOrderPage },
+          },
+        },
+        async request => ({
+          items: [
+            {
+              id: request.params.orderId,
+              total: 5,
+              internal: 'dropped',
+            } as z.output<typeof SchemaTestOrder>,
+          ],
+          total: 1,
+          page: 1,
+          pageSize: 20,
+          hasNext: false,
+          hasPrev: false,
+        })
+      );
+      app.get(
+        '/price',
+        { schema: { response: { 200: SchemaTestMoney } } },
+        async () => ({ amount: 100, currency: 'EUR', internal: 'dropped' })
+      );
+      await app.ready();
+    };
+
+    it('should serialize responses through the references', async () => {
+      await setup();
+
+      const orders = await app.inject({
+        method: 'GET',
+        url: `/orders/${ORDER_ID}`,
+      });
+      const price = await app.inject({ method: 'GET', url: '/price' });
+
+      expect(orders.json()).toEqual({
+        items: [{ id: ORDER_ID, total: 5 }],
+        total: 1,
+        page: 1,
+        pageSize: 20,
+        hasNext: false,
+        hasPrev: false,
+      });
+      expect(price.json()).toEqual({ amount: 100, currency: 'EUR' });
+    });
+
+    it('should document shared schemas as components', async () => {
+      await setup();
+
+      const spec = getOpenAPIV3Document(() => app.swagger());
+      const operation = spec.paths['/orders/{orderId}']?.get;
+
+      expect(spec.components?.schemas).toMatchObject({
+        OrderId: { type: 'string', format: 'uuid' },
+        SchemaTestMoney: { type: 'object' },
+        SchemaTestOrder: {
+          properties: { id: { $ref: '#/components/schemas/OrderId' } },
+        },
+      });
+      expect(operation?.parameters).toEqual([
+        expect.objectContaining({
+          in: 'path',
+          name: 'orderId',
+          schema: { $ref: '#/components/schemas/OrderId' },
+        }),
+      ]);
+      expect(operation?.responses['200']).toMatchObject({
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SchemaTestOrderPage' },
+          },
+        },
+      });
+    });
+  });
+});
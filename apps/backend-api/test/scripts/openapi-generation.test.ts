@@ -1,89 +1,63 @@
-import { describe, it, expect, beforeEach, afterEach, beforeAll } from 'vitest';
-import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { exec } from 'node:child_process';
-import { promisify } from 'node:util';
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
 import type { OpenAPIV3 } from 'openapi-types';
 
-const execAsync = promisify(exec);
+import { buildSpec } from '../../scripts/openapi-app.js';
+import { renderSpec, runOpenApiCli } from '../../src/openapi-spec.js';
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 describe('OpenAPI Generation Scripts', () => {
   const backendApiPath = join(__dirname, '../../');
   const openApiPath = join(backendApiPath, 'openapi.json');
-  const generationScript = join(backendApiPath, 'scripts/generate-openapi.js');
-
-  let originalOpenApi: string | null = null;
-
-  beforeEach(() => {
-    // Backup existing openapi.json if it exists
-    if (existsSync(openApiPath)) {
-      originalOpenApi = readFileSync(openApiPath, 'utf8');
-    }
-  });
 
-  afterEach(() => {
-    // Restore or clean up openapi.json
-    if (originalOpenApi) {
-      writeFileSync(openApiPath, originalOpenApi, 'utf8');
-      originalOpenApi = null;
-    } else if (existsSync(openApiPath)) {
-      unlinkSync(openApiPath);
-    }
-  });
-
-  describe('Development OpenAPI Generation Script', () => {
-    it('should exist and be executable', () => {
-      expect(existsSync(generationScript)).toBe(true);
-    });
-
-    it('should generate valid OpenAPI specification', async () => {
-      // Remove existing file to ensure fresh generation
-      if (existsSync(openApiPath)) {
-        unlinkSync(openApiPath);
-      }
+  describe('Committed OpenAPI Specification', () => {
+    it('should be up to date with the application', async () => {
+      const err: string[] = [];
 
-      // Run the generation script
-      const { stdout, stderr } = await execAsync(`node ${generationScript}`, {
+      const code = await runOpenApiCli(['--check'], buildSpec, {
         cwd: backendApiPath,
-        timeout: 30000, // 30 second timeout
+        stdout: () => undefined,
+        stderr: text => err.push(text),
       });
 
-      // Should have success output
-      expect(stdout).toContain('✅ OpenAPI specification generated');
-      expect(stdout).toContain('📊 Found');
-      expect(stdout).toContain('endpoints');
-      expect(stderr).toBe('');
-
-      // Should create the OpenAPI file
-      expect(existsSync(openApiPath)).toBe(true);
+      expect(err).toEqual([]);
+      expect(code).toBe(0);
+    }, 35000);
 
-      // Should contain valid JSON
-      const content = readFileSync(openApiPath, 'utf8');
-      const spec = JSON.parse(content);
+    it('should be generated the same way on every run', async () => {
+      const [first, second] = await Promise.all([
+        buildSpec('development'),
+        buildSpec('development'),
+      ]);
 
-      // Basic validation
-      expect(spec.openapi).toBe('3.0.0');
-      expect(spec.info).toBeDefined();
-      expect(spec.paths).toBeDefined();
-      expect(Object.keys(spec.paths).length).toBeGreaterThan(0);
+      expect(renderSpec(second, 'json')).toBe(renderSpec(first, 'json'));
+      expect(readFileSync(openApiPath, 'utf8')).toBe(renderSpec(first, 'json'));
     }, 35000);
 
-    it('should generate spec with correct structure', async () => {
-      // Remove existing file
-      if (existsSync(openApiPath)) {
-        unlinkSync(openApiPath);
-      }
+    it('should ignore local .env files', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'openapi-env-'));
+      writeFileSync(join(dir, '.env.local'), 'PORT=4000');
+      const cwd = vi.spyOn(process, 'cwd').mockReturnValue(dir);
 
-      await execAsync(`node ${generationScript}`, {
-        cwd: backendApiPath,
-        timeout: 30000,
-      });
+      try {
+        const spec = await buildSpec('development');
+        expect(renderSpec(spec, 'json')).toBe(
+          readFileSync(openApiPath, 'utf8')
+        );
+      } finally {
+        cwd.mockRestore();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    }, 35000);
 
-      const content = readFileSync(openApiPath, 'utf8');
-      const spec = JSON.parse(content);
+    it('should describe the application', () => {
+      const spec = JSON.parse(readFileSync(openApiPath, 'utf8'));
 
       // Required OpenAPI 3.0 fields
       expect(spec.openapi).toBe('3.0.0');
@@ -91,45 +65,12 @@ describe('OpenAPI Generation Scripts', () => {
       expect(spec.info.version).toBe('1.0.0');
 
       // Should have paths
-      expect(spec.paths).toBeDefined();
       expect(spec.paths['/']).toBeDefined();
       expect(spec.paths['/example/']).toBeDefined();
 
-      // Should have components
-      expect(spec.components).toBeDefined();
+      // Should have components and tags
       expect(spec.components.securitySchemes).toBeDefined();
-
-      // Should have tags
-      expect(spec.tags).toBeDefined();
       expect(spec.tags.length).toBeGreaterThan(0);
-    }, 35000);
-
-    it('should handle script errors gracefully', async () => {
-      // Test with a modified script that should fail
-      const invalidScript = `#!/usr/bin/env node
-console.error('❌ Test error');
-process.exit(1);`;
-
-      const tempScript = join(backendApiPath, 'scripts/test-invalid.js');
-      writeFileSync(tempScript, invalidScript);
-
-      try {
-        await execAsync(`node ${tempScript}`, {
-          cwd: backendApiPath,
-          timeout: 10000,
-        });
-
-        // Should not reach here
-        expect(false).toBe(true);
-      } catch (error: any) {
-        expect(error.code).toBe(1);
-        expect(error.stderr).toContain('❌ Test error');
-      } finally {
-        // Clean up
-        if (existsSync(tempScript)) {
-          unlinkSync(tempScript);
-        }
-      }
     });
   });
 
@@ -137,18 +78,7 @@ process.exit(1);`;
     let spec: OpenAPIV3.Document;
 
     beforeAll(async () => {
-      // Generate fresh spec for quality checks
-      if (existsSync(openApiPath)) {
-        unlinkSync(openApiPath);
-      }
-
-      await execAsync(`node ${generationScript}`, {
-        cwd: backendApiPath,
-        timeout: 30000,
-      });
-
-      const content = readFileSync(openApiPath, 'utf8');
-      spec = JSON.parse(content);
+      spec = (await buildSpec('development')) as unknown as OpenAPIV3.Document;
     });
 
     it('should have complete endpoint documentation', () => {
@@ -207,11 +137,12 @@ process.exit(1);`;
                 !('$ref' in response) &&
                 response.content
               ) {
-                // Should have application/json content type
-                expect(response.content['application/json']).toBeDefined();
-                expect(
-                  response.content['application/json']?.schema
-                ).toBeDefined();
+                // JSON for results, problem details for errors
+                const content =
+                  response.content['application/json'] ??
+                  response.content['application/problem+json'];
+                expect(content).toBeDefined();
+                expect(content?.schema).toBeDefined();
               }
             }
           }
@@ -0,0 +1,67 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import Fastify, { type FastifyInstance } from 'fastify';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { removeStaleSocket } from '../src/socket.js';
+
+// Listens on the socket, then dies without closing it, like a crash
+const crashWhileListening = (path: string): void => {
+  spawnSync(
+    process.execPath,
+    [
+      '-e',
+      `require('node:net').createServer().listen(${JSON.stringify(path)}, () => process.kill(process.pid, 'SIGKILL'))`,
+    ],
+    { stdio: 'ignore', timeout: 10_000 }
+  );
+};
+
+describe('removeStaleSocket', () => {
+  let dir: string;
+  let server: FastifyInstance | undefined;
+  const socket = () => join(dir, 'app.sock');
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'socket-'));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const listen = async (): Promise<void> => {
+    server = Fastify({ logger: false });
+    await server.listen({ path: socket() });
+  };
+
+  it('should let the server restart after a crash', async () => {
+    crashWhileListening(socket());
+    expect(existsSync(socket())).toBe(true);
+    await expect(listen()).rejects.toThrow(/EADDRINUSE/);
+    await server?.close();
+
+    expect(await removeStaleSocket(socket())).toBe(true);
+    await listen();
+  });
+
+  it('should keep a socket a server is listening on', async () => {
+    await listen();
+
+    expect(await removeStaleSocket(socket())).toBe(false);
+    expect(existsSync(socket())).toBe(true);
+  });
+
+  it('should leave missing paths and regular files alone', async () => {
+    expect(await removeStaleSocket(socket())).toBe(false);
+
+    writeFileSync(socket(), 'not a socket');
+    expect(await removeStaleSocket(socket())).toBe(false);
+    expect(existsSync(socket())).toBe(true);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Contract tests generated from the OpenAPI document.
+ *
+ * `contractCases` walks `app.swagger()` and returns one case per operation.
+ * A case sends a request built from the declared examples (path, query and
+ * header parameters, request body) with `app.inject` and validates the
+ * response against the schema documented for its status code.
+ *
+ * An operation without examples fails: declare `example` values on its
+ * parameters and body (required ones are needed to build the request), or on
+ * its response schema when it takes no input.
+ */
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import type { FastifyInstance, InjectOptions } from 'fastify';
+
+type Json = Record<string, unknown>;
+
+export interface ContractCase {
+  /** The operation, e.g. `GET /orders/{orderId}` */
+  name: string;
+  /** Sends the request; resolves with the contract violations, if any */
+  check: () => Promise<string[]>;
+}
+
+const METHODS = ['get', 'put', 'post', 'delete', 'patch', 'options', 'head'];
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asRecord = (value: unknown): Json => (isRecord(value) ? value : {});
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+// Parameter values as they appear in a URL or header
+const asText = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+// Follows local references such as #/components/schemas/HealthReport
+function dereference(spec: Json, value: unknown): Json {
+  let current = value;
+  for (let depth = 0; depth < 16; depth++) {
+    const ref = asRecord(current)['$ref'];
+    if (typeof ref !== 'string' || !ref.startsWith('#/')) break;
+    current = ref
+      .slice(2)
+      .split('/')
+      .reduce<unknown>((node, segment) => asRecord(node)[segment], spec);
+  }
+  return asRecord(current);
+}
+
+// Whether an example is declared anywhere in a value, references included
+function declaresExample(
+  spec: Json,
+  value: unknown,
+  seen = new Set<unknown>()
+): boolean {
+  if (seen.has(value)) return false;
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.some(item => declaresExample(spec, item, seen));
+  }
+  if (!isRecord(value)) return false;
+  if ('example' in value || 'examples' in value) return true;
+  if (typeof value['$ref'] === 'string') {
+    return declaresExample(spec, dereference(spec, value), seen);
+  }
+  return Object.values(value).some(item => declaresExample(spec, item, seen));
+}
+
+// The first of the named examples of a parameter or media type
+const namedExample = (examples: unknown): unknown =>
+  asRecord(Object.values(asRecord(examples))[0])['value'];
+
+/**
+ * Builds a value from the examples declared on a schema: its own example, or
+ * one assembled from its properties' or items' examples
+ * @returns The example, or undefined when a required part has none
+ */
+function schemaExample(spec: Json, value: unknown): unknown {
+  const schema = dereference(spec, value);
+  if ('example' in schema) return schema['example'];
+
+  if (isRecord(schema['properties'])) {
+    const required = new Set(asArray(schema['required']));
+    const example: Json = {};
+    for (const [name, property] of Object.entries(schema['properties'])) {
+      const propertyExample = schemaExample(spec, property);
+      if (propertyExample !== undefined) example[name] = propertyExample;
+      else if (required.has(name)) return undefined;
+    }
+    return example;
+  }
+  if (schema['items'] !== undefined) {
+    const item = schemaExample(spec, schema['items']);
+    return item === undefined ? undefined : [item];
+  }
+  return undefined;
+}
+
+const inputExample = (spec: Json, input: Json): unknown =>
+  input['example'] ??
+  namedExample(input['examples']) ??
+  schemaExample(spec, input['schema']);
+
+// Query values as light-my-request takes them; objects use bracket keys
+function queryEntries(name: string, value: unknown): [string, string[]][] {
+  if (isRecord(value)) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      queryEntries(`${name}[${key}]`, item)
+    );
+  }
+  return [
+    [
+      name,
+      asArray(value).length > 0 ? asArray(value).map(asText) : [asText(value)],
+    ],
+  ];
+}
+
+function createValidator(spec: Json) {
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+
+  // Component references resolve against the root of the compiled schema
+  const validators = new Map<unknown, ReturnType<Ajv['compile']>>();
+  return (schema: unknown, payload: unknown): string[] => {
+    let validate = validators.get(schema);
+    if (validate === undefined) {
+      validate = ajv.compile({
+        allOf: [schema],
+        components: spec['components'],
+      });
+      validators.set(schema, validate);
+    }
+    return validate(payload)
+      ? []
+      : (validate.errors ?? []).map(
+          ({ instancePath, message }) =>
+            `${instancePath || 'body'} ${message ?? 'is invalid'}`
+        );
+  };
+}
+
+/**
+ * Lists the contract cases of an application
+ * @param app - A ready application
+ * @returns One case per documented operation
+ */
+export function contractCases(app: FastifyInstance): ContractCase[] {
+  const spec = JSON.parse(JSON.stringify(app.swagger())) as Json;
+  const validate = createValidator(spec);
+
+  return Object.entries(asRecord(spec['paths'])).flatMap(([path, item]) => {
+    const pathItem = asRecord(item);
+
+    return METHODS.filter(method => isRecord(pathItem[method])).map(method => {
+      const operation = asRecord(pathItem[method]);
+      const name = `${method.toUpperCase()} ${path}`;
+
+      const check = async (): Promise<string[]> => {
+        if (!declaresExample(spec, operation)) {
+          return [
+            `${name} declares no examples: add them to its parameters, request body or response schema`,
+          ];
+        }
+
+        const missing: string[] = [];
+        let url = path;
+        const query: Record<string, string[]> = {};
+        const headers: Record<string, string> = {};
+        let payload: unknown;
+
+        const parameters = [
+          ...asArray(pathItem['parameters']),
+          ...asArray(operation['parameters']),
+        ].map(parameter => dereference(spec, parameter));
+        for (const parameter of parameters) {
+          const parameterName = String(parameter['name']);
+          const location = String(parameter['in']);
+          const example = inputExample(spec, parameter);
+
+          if (example === undefined) {
+            if (parameter['required'] === true) {
+              missing.push(
+                `${name} has no example for the ${location} parameter ${parameterName}`
+              );
+            }
+            continue;
+          }
+          if (location === 'path') {
+            url = url.replace(
+              `{${parameterName}}`,
+              encodeURIComponent(asText(example))
+            );
+          } else if (location === 'query') {
+            Object.assign(
+              query,
+              Object.fromEntries(queryEntries(parameterName, example))
+            );
+          } else if (location === 'header') {
+            headers[parameterName.toLowerCase()] = asText(example);
+          }
+        }
+
+        const body = dereference(spec, operation['requestBody']);
+        const content = asRecord(body['content']);
+        const mediaType =
+          'application/json' in content
+            ? 'application/json'
+            : Object.keys(content)[0];
+        if (mediaType !== undefined) {
+          payload = inputExample(spec, asRecord(content[mediaType]));
+          if (payload === undefined && body['required'] === true) {
+            missing.push(`${name} has no example for its request body`);
+          }
+          if (payload !== undefined) headers['content-type'] = mediaType;
+        }
+
+        if (missing.length > 0) return missing;
+
+        const response = await app.inject({
+          method: method.toUpperCase() as NonNullable<InjectOptions['method']>,
+          url,
+          query,
+          headers,
+          ...(payload !== undefined && {
+            payload:
+              typeof payload === 'string' ? payload : JSON.stringify(payload),
+          }),
+        });
+
+        const status = String(response.statusCode);
+        const responses = asRecord(operation['responses']);
+        const documented =
+          responses[status] ??
+          responses[`${status.charAt(0)}XX`] ??
+          responses['default'];
+        if (documented === undefined) {
+          return [`${name} responded ${status}, which is not documented`];
+        }
+
+        const documentedContent = asRecord(
+          dereference(spec, documented)['content']
+        );
+        if (Object.keys(documentedContent).length === 0) return [];
+
+        const contentType = String(response.headers['content-type'] ?? '')
+          .split(';')[0]
+          ?.trim();
+        const media =
+          contentType === undefined
+            ? undefined
+            : documentedContent[contentType];
+        if (media === undefined) {
+          return [
+            `${name} responded ${status} with ${contentType || 'no content type'}; documented: ${Object.keys(documentedContent).join(', ')}`,
+          ];
+        }
+
+        const schema = asRecord(media)['schema'];
+        if (schema === undefined) return [];
+        const responseBody = contentType?.endsWith('json')
+          ? response.json()
+          : response.body;
+        return validate(schema, responseBody).map(
+          error => `${name} ${status} response: ${error}`
+        );
+      };
+
+      return { name, check };
+    });
+  });
+}
@@ -0,0 +1,245 @@
+/**
+ * `config` command line interface
+ *
+ * Works against any configuration definition so each service can expose it
+ * with its own schema:
+ *
+ *   validate  Validate the configuration for an environment, offline
+ *   print     Print the redacted effective configuration and value sources
+ *   example   Generate (or --check) a documented .env.example
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import {
+  ConfigValidationError,
+  type ConfigDefinition,
+  type ConfigFragment,
+  type LoadedConfig,
+} from './config-loader.js';
+import { generateEnvExample } from './env-example.js';
+import { APP_ENVIRONMENTS } from './environment.js';
+
+export const CONFIG_CLI_USAGE = `Usage: config <command> [options]
+
+Commands:
+  validate   Validate the configuration for an environment
+  print      Print the redacted effective configuration and value sources
+  example    Generate a documented .env.example from the schema
+
+Options:
+  --env <name>      Target NODE_ENV; ignores the current process environment
+  --app-env <name>  Target APP_ENV (${APP_ENVIRONMENTS.join(', ')});
+                    ignores the current process environment
+  --dir <path>      Directory holding the .env files (default: cwd)
+  --output <file>   example: write to a file instead of stdout
+  --check           example: fail if --output is missing or out of date
+  --json            print: output JSON
+  --help            Show this message`;
+
+export interface ConfigCliOptions {
+  /** Redacts sensitive values before they are printed */
+  redact: (
+    config: Record<string, unknown>,
+    secretFields: readonly string[]
+  ) => Record<string, unknown>;
+  /** Comment lines written at the top of the generated .env.example */
+  exampleHeader?: string[];
+  /**
+   * Environment used when neither --env nor --app-env is given (defaults to
+   * process.env)
+   */
+  env?: NodeJS.ProcessEnv;
+  /** Base directory for --dir and --output (defaults to process.cwd()) */
+  cwd?: string;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+/**
+ * Runs the config CLI
+ * @param definition - The service's configuration definition
+ * @param argv - Arguments after the executable, e.g. `process.argv.slice(2)`
+ * @param options - Redaction, I/O and environment overrides
+ * @returns The process exit code: 0 on success, 1 on failure, 2 on bad usage
+ */
+export function runConfigCli<S extends ConfigFragment>(
+  definition: ConfigDefinition<S>,
+  argv: string[],
+  options: ConfigCliOptions
+): number {
+  const stdout = options.stdout ?? (text => process.stdout.write(`${text}\n`));
+  const stderr = options.stderr ?? (text => process.stderr.write(`${text}\n`));
+  const cwd = options.cwd ?? process.cwd();
+
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (error) {
+    stderr(error instanceof Error ? error.message : String(error));
+    stderr(CONFIG_CLI_USAGE);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const command = positionals[0];
+
+  if (values.help === true || command === undefined) {
+    (values.help === true ? stdout : stderr)(CONFIG_CLI_USAGE);
+    return values.help === true ? 0 : 2;
+  }
+
+  const dir = resolve(cwd, values.dir ?? '.');
+  const target = targetEnvironment(values) ?? {
+    env: options.env ?? process.env,
+  };
+
+  const load = (): LoadedConfig<Record<string, unknown>> | undefined => {
+    try {
+      return definition.load({ cwd: dir, ...target });
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        stderr('✖ Configuration is invalid:');
+        for (const issue of error.issues) {
+          stderr(`  ${issue.field} from ${issue.source}: ${issue.message}`);
+        }
+        return undefined;
+      }
+      throw error;
+    }
+  };
+
+  switch (command) {
+    case 'validate': {
+      const loaded = load();
+      if (!loaded) return 1;
+      const files = loaded.files.length > 0 ? loaded.files.join(', ') : 'none';
+      stdout(
+        `✔ Configuration is valid for ${describeEnvironment(loaded.config)} (files: ${files})`
+      );
+      return 0;
+    }
+
+    case 'print': {
+      const loaded = load();
+      if (!loaded) return 1;
+      const safe = options.redact(loaded.config, loaded.secretFields);
+
+      if (values.json === true) {
+        stdout(
+          JSON.stringify(
+            { config: safe, sources: loaded.sources, files: loaded.files },
+            null,
+            2
+          )
+        );
+        return 0;
+      }
+
+      const entries = Object.entries(safe);
+      const width = Math.max(...entries.map(([key]) => key.length));
+      for (const [key, value] of entries) {
+        // eslint-disable-next-line security/detect-object-injection
+        const source = loaded.sources[key] ?? 'unknown';
+        stdout(`${key.padEnd(width)}  ${JSON.stringify(value)}  (${source})`);
+      }
+      return 0;
+    }
+
+    case 'example': {
+      const content = generateEnvExample(definition.schema, {
+        ...(options.exampleHeader !== undefined && {
+          header: options.exampleHeader,
+        }),
+        reloadable: definition.reloadable,
+      });
+
+      if (values.output === undefined) {
+        if (values.check === true) {
+          stderr('--check requires --output');
+          return 2;
+        }
+        stdout(content.trimEnd());
+        return 0;
+      }
+
+      const output = resolve(cwd, values.output);
+      if (values.check === true) {
+        const current = existsSync(output)
+          ? readFileSync(output, 'utf8')
+          : undefined;
+        if (current !== content) {
+          stderr(
+            `✖ ${values.output} is out of date; regenerate it with the example command`
+          );
+          return 1;
+        }
+        stdout(`✔ ${values.output} is up to date`);
+        return 0;
+      }
+
+      writeFileSync(output, content);
+      stdout(`✔ Wrote ${values.output}`);
+      return 0;
+    }
+
+    default:
+      stderr(`Unknown command: ${command}`);
+      stderr(CONFIG_CLI_USAGE);
+      return 2;
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      env: { type: 'string' },
+      'app-env': { type: 'string' },
+      dir: { type: 'string' },
+      output: { type: 'string' },
+      check: { type: 'boolean' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+}
+
+/**
+ * Builds the environment for --env and --app-env, leaving out process.env so
+ * a target is validated the same way from any shell
+ * @param values - The parsed command line options
+ * @returns The target environment and its source label, or undefined when
+ * neither option is given
+ */
+function targetEnvironment(values: {
+  env?: string | undefined;
+  'app-env'?: string | undefined;
+}): { env: NodeJS.ProcessEnv; envSource: string } | undefined {
+  const { env: nodeEnv, 'app-env': appEnv } = values;
+  if (nodeEnv === undefined && appEnv === undefined) return undefined;
+
+  return {
+    env: {
+      ...(nodeEnv !== undefined && { NODE_ENV: nodeEnv }),
+      ...(appEnv !== undefined && { APP_ENV: appEnv }),
+    },
+    envSource:
+      nodeEnv === undefined
+        ? '--app-env'
+        : appEnv === undefined
+          ? '--env'
+          : 'the command line',
+  };
+}
+
+// "production", or "staging (NODE_ENV production)" when the two differ
+function describeEnvironment(config: Record<string, unknown>): string {
+  const nodeEnv = String(config['NODE_ENV']);
+  const appEnv =
+    typeof config['APP_ENV'] === 'string' ? config['APP_ENV'] : nodeEnv;
+  return appEnv === nodeEnv ? nodeEnv : `${appEnv} (NODE_ENV ${nodeEnv})`;
+}
@@ -0,0 +1,467 @@
+/**
+ * Composable, typed configuration loader
+ *
+ * The base schema covers the settings every service needs. Plugins contribute
+ * their own Zod fragments, and `defineConfig` merges them into a single schema
+ * that is loaded once (from .env files, process.env and `<NAME>_FILE` secret
+ * files) and validated as a whole.
+ *
+ * Fields left unset fall back to the profile of the deployment environment
+ * (APP_ENV, which itself falls back to NODE_ENV) before the schema defaults.
+ */
+
+import { z } from 'zod';
+
+import { loadEnvFiles, type EnvSources, type RawEnv } from './env-files.js';
+import {
+  AppEnvSchema,
+  ENVIRONMENT_PROFILES,
+  LOG_LEVELS,
+  NodeEnvSchema,
+} from './environment.js';
+import { resolveSecretFiles } from './secret-files.js';
+
+export const DEFAULT_SOURCE = 'default';
+
+/** A set of Zod fields contributed to the configuration schema */
+export type ConfigFragment = z.ZodRawShape;
+
+export const PortSchema = z
+  .string({
+    required_error: 'PORT environment variable is required',
+    invalid_type_error: 'PORT must be a string',
+  })
+  .regex(/^\d+$/, 'PORT must contain only numeric characters')
+  .transform(Number)
+  .refine(n => n > 0 && n < 65536, 'PORT must be between 1-65535')
+  .default('3000')
+  .describe('TCP port the server listens on');
+
+export const HostSchema = z
+  .string({
+    invalid_type_error: 'HOST must be a string',
+  })
+  .min(1, 'HOST cannot be empty')
+  .default('localhost')
+  .describe('Host or interface the server binds to');
+
+export const ListenSocketSchema = z
+  .string({ invalid_type_error: 'LISTEN_SOCKET must be a string' })
+  .min(1, 'LISTEN_SOCKET cannot be empty')
+  .optional()
+  .describe('Unix socket path to listen on instead of HOST/PORT');
+
+export const ListenSocketModeSchema = z
+  .string({ invalid_type_error: 'LISTEN_SOCKET_MODE must be a string' })
+  .regex(
+    /^0?[0-7]{3}$/,
+    'LISTEN_SOCKET_MODE must be an octal file mode such as 660'
+  )
+  .transform(mode => parseInt(mode, 8))
+  .optional()
+  .describe('File permissions applied to LISTEN_SOCKET, in octal (e.g. 660)');
+
+export const ListenFdsSchema = z
+  .string({ invalid_type_error: 'LISTEN_FDS must be a string' })
+  .regex(/^\d+$/, 'LISTEN_FDS must be a whole number')
+  .transform(Number)
+  .optional()
+  .describe(
+    'Sockets inherited through systemd socket activation; set by systemd'
+  );
+
+export const ListenPidSchema = z
+  .string({ invalid_type_error: 'LISTEN_PID must be a string' })
+  .regex(/^\d+$/, 'LISTEN_PID must be a process id')
+  .transform(Number)
+  .optional()
+  .describe(
+    'Process the LISTEN_FDS sockets are meant for; set by systemd, other processes ignore them'
+  );
+
+export const LogLevelSchema = z
+  .enum(LOG_LEVELS, {
+    errorMap: () => ({
+      message: `LOG_LEVEL must be one of: ${LOG_LEVELS.join(', ')}`,
+    }),
+  })
+  .optional()
+  .describe('Minimum log level; defaults to the APP_ENV profile when unset');
+
+/**
+ * Builds a field holding a duration in whole milliseconds, for plugin
+ * fragments (timeouts, cache lifetimes)
+ * @param name - Environment variable name used in validation messages
+ * @param defaultMs - Default duration in milliseconds
+ * @param description - Description written to the .env.example
+ * @returns The field schema, parsing to a number
+ */
+export function durationMsSchema(
+  name: string,
+  defaultMs: number,
+  description: string
+): z.ZodDefault<z.ZodEffects<z.ZodString, number, string>> {
+  return z
+    .string({ invalid_type_error: `${name} must be a string` })
+    .regex(/^\d+$/, `${name} must be a whole number of milliseconds`)
+    .transform(Number)
+    .default(String(defaultMs))
+    .describe(description);
+}
+
+/** Fields shared by every service built from this template */
+export const baseConfigFragment = {
+  NODE_ENV: NodeEnvSchema,
+  APP_ENV: AppEnvSchema,
+  PORT: PortSchema,
+  HOST: HostSchema,
+  LISTEN_SOCKET: ListenSocketSchema,
+  LISTEN_SOCKET_MODE: ListenSocketModeSchema,
+  LISTEN_FDS: ListenFdsSchema,
+  LISTEN_PID: ListenPidSchema,
+  LOG_LEVEL: LogLevelSchema,
+} satisfies ConfigFragment;
+
+export const BaseConfigSchema = z.object(baseConfigFragment);
+
+/**
+ * Base fields without a schema default: when unset they follow NODE_ENV and
+ * the APP_ENV profile, so a value copied from an example file would pin them
+ */
+export const ENVIRONMENT_DERIVED_FIELDS = ['APP_ENV', 'LOG_LEVEL'] as const;
+
+type EnvironmentDerivedField = (typeof ENVIRONMENT_DERIVED_FIELDS)[number];
+
+/** A loaded configuration: the environment-derived fields are always set */
+export type ResolvedConfig<T> = Omit<T, EnvironmentDerivedField> & {
+  [F in EnvironmentDerivedField & keyof T]-?: NonNullable<T[F]>;
+};
+
+/** Base fields that can change at runtime without a restart */
+export const BASE_RELOADABLE_FIELDS: readonly string[] = ['LOG_LEVEL'];
+
+export type BaseConfig = z.infer<typeof BaseConfigSchema>;
+
+export interface ConfigIssue {
+  field: string;
+  source: string;
+  message: string;
+  code: string;
+  received?: unknown;
+}
+
+/**
+ * Thrown when the merged configuration does not satisfy the schema.
+ * Every issue names the file (or `process.env`) the bad value came from.
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Environment validation failed: ${issues.map(i => `${i.field} from ${i.source}: ${i.message}`).join(', ')}`
+    );
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface LoadConfigOptions {
+  /** Directory containing the .env files (defaults to process.cwd()) */
+  cwd?: string;
+  /** Values that take precedence over every file (defaults to process.env) */
+  env?: NodeJS.ProcessEnv;
+  /** Source name reported for values from `env` (defaults to `process.env`) */
+  envSource?: string;
+}
+
+export interface LoadedConfig<T> {
+  /** The validated configuration */
+  config: T;
+  /** Where each schema field came from (a file, `process.env` or `default`) */
+  sources: EnvSources;
+  /** .env files that were read, lowest precedence first */
+  files: string[];
+  /** Fields supplied through `<NAME>_FILE`; always redacted when logged */
+  secretFields: string[];
+}
+
+/** A problem found by a cross-field rule */
+export interface ConfigRuleIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Checks fields that depend on each other, e.g. settings required together.
+ * `sources` tells explicitly set fields apart from defaults.
+ */
+export type ConfigRule<T> = (
+  config: T,
+  sources: EnvSources
+) => ConfigRuleIssue[];
+
+export interface ExtendConfigOptions<E extends ConfigFragment> {
+  /** Fields of the fragment that may be applied by a live reload */
+  reloadable?: readonly (keyof E & string)[];
+  /** Runs once every field is individually valid */
+  validate?: ConfigRule<z.output<z.ZodObject<E>>>;
+}
+
+/** A single field that differs between two configurations */
+export interface ConfigChange {
+  field: string;
+  previous: unknown;
+  next: unknown;
+}
+
+export interface ConfigDefinition<S extends ConfigFragment> {
+  readonly schema: z.ZodObject<S>;
+  /** Fields that may change at runtime; everything else needs a restart */
+  readonly reloadable: readonly string[];
+  /** Returns a new definition with the fragment's fields added */
+  extend<E extends ConfigFragment>(
+    fragment: E,
+    options?: ExtendConfigOptions<E>
+  ): ConfigDefinition<z.objectUtil.extendShape<S, E>>;
+  /** Loads, merges and validates the configuration */
+  load(
+    options?: LoadConfigOptions
+  ): LoadedConfig<ResolvedConfig<z.output<z.ZodObject<S>>>>;
+}
+
+function toIssues(error: z.ZodError, sources: EnvSources): ConfigIssue[] {
+  return error.errors.map(err => {
+    const field = err.path.join('.');
+    return {
+      field,
+      // eslint-disable-next-line security/detect-object-injection
+      source: sources[field] ?? DEFAULT_SOURCE,
+      message: err.message,
+      code: err.code,
+      received: 'received' in err ? err.received : undefined,
+    };
+  });
+}
+
+/**
+ * Lists the fields whose values differ between two configurations
+ * @param previous - The configuration currently in use
+ * @param next - The newly loaded configuration
+ * @returns One entry per changed field, in key order of `next`
+ */
+export function diffConfig(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>
+): ConfigChange[] {
+  const fields = new Set([...Object.keys(next), ...Object.keys(previous)]);
+  const changes: ConfigChange[] = [];
+
+  for (const field of fields) {
+    // eslint-disable-next-line security/detect-object-injection
+    const before = previous[field];
+    // eslint-disable-next-line security/detect-object-injection
+    const after = next[field];
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, previous: before, next: after });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Fills in APP_ENV from NODE_ENV, then unset fields from the APP_ENV profile.
+ * This is the only place the environment-derived fields are defaulted.
+ * Invalid values are left for the schema to report.
+ */
+function applyEnvironmentDefaults(
+  values: RawEnv,
+  sources: EnvSources
+): { values: RawEnv; sources: EnvSources } {
+  const resolved: RawEnv = { ...values };
+  const resolvedSources: EnvSources = { ...sources };
+
+  if (resolved['APP_ENV'] === undefined) {
+    // Unset NODE_ENV parses to its own default (development)
+    const nodeEnv = NodeEnvSchema.safeParse(resolved['NODE_ENV']);
+    if (nodeEnv.success) {
+      resolved['APP_ENV'] = nodeEnv.data;
+      if (resolved['NODE_ENV'] !== undefined) {
+        resolvedSources['APP_ENV'] = 'NODE_ENV';
+      }
+    }
+  }
+
+  const appEnv = AppEnvSchema.safeParse(resolved['APP_ENV']);
+  if (
+    appEnv.success &&
+    appEnv.data !== undefined &&
+    resolved['LOG_LEVEL'] === undefined
+  ) {
+    resolved['LOG_LEVEL'] = ENVIRONMENT_PROFILES[appEnv.data].logLevel;
+    resolvedSources['LOG_LEVEL'] = `profile:${appEnv.data}`;
+  }
+
+  return { values: resolved, sources: resolvedSources };
+}
+
+/**
+ * Counts the sockets systemd passed to this process. LISTEN_FDS is inherited
+ * by child processes, so it only counts when LISTEN_PID names this one.
+ * @param config - The loaded LISTEN_FDS and LISTEN_PID
+ * @param pid - The process to check for (defaults to the current one)
+ * @returns The number of inherited sockets, 0 when they are not ours
+ */
+export function inheritedSocketCount(
+  config: Pick<BaseConfig, 'LISTEN_FDS' | 'LISTEN_PID'>,
+  pid: number = process.pid
+): number {
+  return config.LISTEN_PID === pid ? (config.LISTEN_FDS ?? 0) : 0;
+}
+
+// HOST and PORT as written in a copied .env.example
+const TCP_DEFAULTS = {
+  HOST: HostSchema.parse(undefined),
+  PORT: PortSchema.parse(undefined),
+};
+
+/**
+ * The server listens in exactly one way: TCP (HOST/PORT), a Unix socket
+ * (LISTEN_SOCKET) or an inherited socket (LISTEN_FDS). HOST and PORT only
+ * conflict with the other modes when set explicitly to another value than
+ * their default.
+ */
+function validateListenMode(
+  config: BaseConfig,
+  sources: EnvSources
+): ConfigRuleIssue[] {
+  const issues: ConfigRuleIssue[] = [];
+  const inherited = inheritedSocketCount(config);
+  const hasSocket = config.LISTEN_SOCKET !== undefined;
+
+  if (hasSocket && inherited > 0) {
+    issues.push({
+      field: 'LISTEN_SOCKET',
+      message:
+        'LISTEN_SOCKET cannot be combined with LISTEN_FDS; choose one listen mode',
+    });
+  }
+  if (inherited > 1) {
+    issues.push({
+      field: 'LISTEN_FDS',
+      message: `LISTEN_FDS passes ${String(inherited)} sockets; only one is supported`,
+    });
+  }
+  if (config.LISTEN_SOCKET_MODE !== undefined && !hasSocket) {
+    issues.push({
+      field: 'LISTEN_SOCKET_MODE',
+      message: 'LISTEN_SOCKET_MODE requires LISTEN_SOCKET',
+    });
+  }
+
+  const socketMode = hasSocket
+    ? 'LISTEN_SOCKET'
+    : inherited > 0
+      ? 'LISTEN_FDS'
+      : undefined;
+  if (socketMode !== undefined) {
+    for (const field of ['HOST', 'PORT'] as const) {
+      // eslint-disable-next-line security/detect-object-injection
+      if ((sources[field] ?? DEFAULT_SOURCE) === DEFAULT_SOURCE) continue;
+      // eslint-disable-next-line security/detect-object-injection
+      if (config[field] === TCP_DEFAULTS[field]) continue;
+      issues.push({
+        field,
+        message: `${field} cannot be combined with ${socketMode}; choose one listen mode`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function createDefinition<S extends ConfigFragment>(
+  schema: z.ZodObject<S>,
+  reloadable: readonly string[],
+  rules: readonly ConfigRule<Record<string, unknown>>[]
+): ConfigDefinition<S> {
+  return {
+    schema,
+    reloadable,
+    extend: (fragment, options = {}) => {
+      const { validate } = options;
+      return createDefinition(
+        schema.extend(fragment),
+        [...reloadable, ...(options.reloadable ?? [])],
+        validate === undefined
+          ? rules
+          : [
+              ...rules,
+              // The fragment's fields have been parsed by the merged schema
+              (config, sources) =>
+                validate(
+                  config as z.output<z.ZodObject<typeof fragment>>,
+                  sources
+                ),
+            ]
+      );
+    },
+    load: (options = {}) => {
+      const loaded = loadEnvFiles(options);
+      const fields = Object.keys(schema.shape);
+      const secrets = resolveSecretFiles(loaded.values, loaded.sources, fields);
+      const resolved = applyEnvironmentDefaults(
+        secrets.values,
+        secrets.sources
+      );
+      const result = schema.safeParse(resolved.values);
+
+      if (secrets.issues.length > 0 || !result.success) {
+        throw new ConfigValidationError([
+          ...secrets.issues,
+          ...(result.success ? [] : toIssues(result.error, resolved.sources)),
+        ]);
+      }
+
+      const sources: EnvSources = {};
+      for (const key of fields) {
+        // eslint-disable-next-line security/detect-object-injection
+        sources[key] = resolved.sources[key] ?? DEFAULT_SOURCE;
+      }
+
+      const ruleIssues = rules.flatMap(rule => rule(result.data, sources));
+      if (ruleIssues.length > 0) {
+        throw new ConfigValidationError(
+          ruleIssues.map(({ field, message }) => ({
+            field,
+            // eslint-disable-next-line security/detect-object-injection
+            source: sources[field] ?? DEFAULT_SOURCE,
+            message,
+            code: 'invalid_combination',
+          }))
+        );
+      }
+
+      return {
+        // applyEnvironmentDefaults set APP_ENV and LOG_LEVEL; a value it
+        // could not derive came from an invalid NODE_ENV, reported above
+        config: result.data as ResolvedConfig<z.output<z.ZodObject<S>>>,
+        sources,
+        files: loaded.files,
+        secretFields: secrets.secretFields,
+      };
+    },
+  };
+}
+
+/**
+ * Defines the configuration of a service, starting from the base schema.
+ * Chain `.extend()` with each plugin's fragment.
+ * @returns A definition that can be extended further or loaded
+ */
+export function defineConfig(): ConfigDefinition<typeof baseConfigFragment> {
+  return createDefinition(BaseConfigSchema, BASE_RELOADABLE_FIELDS, [
+    (config, sources) => validateListenMode(config as BaseConfig, sources),
+  ]);
+}
@@ -0,0 +1,156 @@
+/**
+ * .env.example generation
+ *
+ * Documents every field of a configuration schema: its description, allowed
+ * values, validation messages and default. Generating the file from the
+ * schema keeps it from drifting.
+ */
+
+import { z } from 'zod';
+
+import { ENVIRONMENT_DERIVED_FIELDS } from './config-loader.js';
+import { SECRET_FILE_SUFFIX } from './secret-files.js';
+
+export interface EnvFieldDoc {
+  name: string;
+  description?: string;
+  allowedValues?: string[];
+  /** Messages the schema reports for invalid values */
+  validation: string[];
+  /** Default as it would be written in a .env file */
+  defaultValue?: string;
+  required: boolean;
+}
+
+// Values used to surface a field's validation messages without knowing its rules
+const PROBE_VALUES = ['', '\u0000'];
+
+// Returns the schema wrapped by a default, optional or effect, if any
+function innerOf(schema: z.ZodTypeAny): z.ZodTypeAny | undefined {
+  if (schema instanceof z.ZodDefault || schema instanceof z.ZodOptional) {
+    return schema._def.innerType as z.ZodTypeAny;
+  }
+  if (schema instanceof z.ZodEffects) {
+    return schema.innerType() as z.ZodTypeAny;
+  }
+  return undefined;
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  const inner = innerOf(schema);
+  return inner === undefined ? schema : unwrap(inner);
+}
+
+function getDefault(schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodDefault) {
+    return (schema._def.defaultValue as () => unknown)();
+  }
+  const inner = innerOf(schema);
+  return inner === undefined ? undefined : getDefault(inner);
+}
+
+function getDescription(schema: z.ZodTypeAny): string | undefined {
+  if (schema.description !== undefined) return schema.description;
+  const inner = innerOf(schema);
+  return inner === undefined ? undefined : getDescription(inner);
+}
+
+/**
+ * Describes a single configuration field for documentation purposes
+ * @param name - Environment variable name
+ * @param schema - The field's Zod schema
+ * @returns Everything needed to document the field
+ */
+export function describeEnvField(
+  name: string,
+  schema: z.ZodTypeAny
+): EnvFieldDoc {
+  const inner = unwrap(schema);
+  const defaultValue = getDefault(schema);
+  const validation = new Set<string>();
+
+  for (const probe of PROBE_VALUES) {
+    const result = schema.safeParse(probe);
+    if (!result.success) {
+      for (const issue of result.error.errors) validation.add(issue.message);
+    }
+  }
+
+  const description = getDescription(schema);
+
+  return {
+    name,
+    ...(description !== undefined && { description }),
+    ...(inner instanceof z.ZodEnum && {
+      allowedValues: [...(inner.options as string[])],
+    }),
+    validation: [...validation],
+    ...(defaultValue !== undefined && {
+      defaultValue:
+        typeof defaultValue === 'string'
+          ? defaultValue
+          : JSON.stringify(defaultValue),
+    }),
+    required: defaultValue === undefined && !schema.isOptional(),
+  };
+}
+
+export interface EnvExampleOptions {
+  /** Comment lines written at the top of the file */
+  header?: string[];
+  /** Fields that can change at runtime without a restart */
+  reloadable?: readonly string[];
+  /**
+   * Fields derived from the deployment environment when unset (defaults to
+   * APP_ENV and LOG_LEVEL); always written commented out
+   */
+  derived?: readonly string[];
+}
+
+/**
+ * Generates a documented .env.example from a configuration schema
+ * @param schema - The object schema describing every variable
+ * @param options - Header lines, reloadable and derived fields
+ * @returns The file contents
+ */
+export function generateEnvExample(
+  schema: z.ZodObject<z.ZodRawShape>,
+  options: EnvExampleOptions = {}
+): string {
+  const {
+    header = [],
+    reloadable = [],
+    derived = ENVIRONMENT_DERIVED_FIELDS,
+  } = options;
+  const lines: string[] = [
+    ...header.map(line => `# ${line}`.trimEnd()),
+    `# Any variable can instead be read from a file with <NAME>${SECRET_FILE_SUFFIX}.`,
+  ];
+
+  for (const [name, field] of Object.entries(schema.shape)) {
+    const doc = describeEnvField(name, field);
+
+    lines.push('');
+    if (doc.description !== undefined) lines.push(`# ${doc.description}`);
+    if (doc.allowedValues !== undefined) {
+      lines.push(`# Allowed values: ${doc.allowedValues.join(', ')}`);
+    }
+    for (const message of doc.validation) lines.push(`# ${message}`);
+    lines.push(doc.required ? '# Required' : '# Optional');
+    if (reloadable.includes(name)) {
+      lines.push('# Reloadable at runtime (SIGHUP) without a restart');
+    }
+    // An empty value is still a value; optional fields without a default
+    // stay commented out so a copied example loads as-is. Derived fields do
+    // too: a copied value would override NODE_ENV and the profile
+    lines.push(
+      derived.includes(name)
+        ? `# ${name}=${doc.defaultValue ?? ''}`
+        : doc.defaultValue === undefined && !doc.required
+          ? `# ${name}=`
+          : `${name}=${doc.defaultValue ?? ''}`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,151 @@
+/**
+ * Layered .env file loading
+ *
+ * Precedence (highest wins):
+ *   1. process.env
+ *   2. .env.local            (skipped when NODE_ENV is "test")
+ *   3. .env.<NODE_ENV>
+ *   4. .env
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+export const PROCESS_ENV_SOURCE = 'process.env';
+
+/** Raw (unvalidated) environment values keyed by variable name */
+export type RawEnv = Record<string, string>;
+
+/** Name of the file (or `process.env`) each variable was read from */
+export type EnvSources = Record<string, string>;
+
+export interface LoadEnvFilesOptions {
+  /** Directory containing the .env files (defaults to process.cwd()) */
+  cwd?: string;
+  /** Values that take precedence over every file (defaults to process.env) */
+  env?: NodeJS.ProcessEnv;
+  /** Source name reported for values from `env` (defaults to `process.env`) */
+  envSource?: string;
+}
+
+export interface LoadedEnv {
+  /** Merged values, ready to be validated */
+  values: RawEnv;
+  /** Where each value in `values` came from */
+  sources: EnvSources;
+  /** Files that were found and read, lowest precedence first */
+  files: string[];
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parses the contents of a .env file.
+ *
+ * Supports comments, blank lines, `export` prefixes, single/double quoted
+ * values and `\n` escapes inside double quotes.
+ * @param content - Raw file contents
+ * @returns Parsed key/value pairs
+ */
+export function parseEnvFile(content: string): RawEnv {
+  const result: RawEnv = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+
+    const key = line
+      .slice(0, separator)
+      .trim()
+      .replace(/^export\s+/, '');
+    if (!KEY_PATTERN.test(key)) continue;
+
+    // eslint-disable-next-line security/detect-object-injection
+    result[key] = parseValue(line.slice(separator + 1).trim());
+  }
+
+  return result;
+}
+
+function parseValue(value: string): string {
+  const quote = value[0];
+
+  if ((quote === '"' || quote === "'") && value.length > 1) {
+    const end = value.lastIndexOf(quote);
+    if (end > 0) {
+      const inner = value.slice(1, end);
+      return quote === '"' ? inner.replace(/\\n/g, '\n') : inner;
+    }
+  }
+
+  // Strip inline comments from unquoted values
+  const commentIndex = value.indexOf(' #');
+  return (commentIndex === -1 ? value : value.slice(0, commentIndex)).trim();
+}
+
+/**
+ * Lists the .env files considered for an environment, lowest precedence first
+ * @param nodeEnv - The NODE_ENV the files are resolved for
+ * @returns File names relative to the config directory
+ */
+export function getEnvFileNames(nodeEnv: string): string[] {
+  const files = ['.env', `.env.${nodeEnv}`];
+
+  // .env.local is meant for developer overrides; tests must be reproducible
+  if (nodeEnv !== 'test') {
+    files.push('.env.local');
+  }
+
+  return files;
+}
+
+/**
+ * Loads and merges the layered .env files for the current environment.
+ *
+ * NODE_ENV is resolved from `env` first, then from the base .env file.
+ * @param options - Directory to read from and the overriding environment
+ * @returns Merged values with the source of each one
+ */
+export function loadEnvFiles(options: LoadEnvFilesOptions = {}): LoadedEnv {
+  const cwd = options.cwd ?? process.cwd();
+  const env = options.env ?? process.env;
+
+  const values: RawEnv = {};
+  const sources: EnvSources = {};
+  const files: string[] = [];
+
+  const apply = (layer: RawEnv, source: string): void => {
+    for (const [key, value] of Object.entries(layer)) {
+      // eslint-disable-next-line security/detect-object-injection
+      values[key] = value;
+      // eslint-disable-next-line security/detect-object-injection
+      sources[key] = source;
+    }
+  };
+
+  const readLayer = (file: string): RawEnv | undefined => {
+    const path = join(cwd, file);
+    if (!existsSync(path)) return undefined;
+    files.push(file);
+    return parseEnvFile(readFileSync(path, 'utf8'));
+  };
+
+  const base = readLayer('.env');
+  const nodeEnv = env['NODE_ENV'] || base?.['NODE_ENV'] || 'development';
+
+  if (base) apply(base, '.env');
+
+  for (const file of getEnvFileNames(nodeEnv).slice(1)) {
+    const layer = readLayer(file);
+    if (layer) apply(layer, file);
+  }
+
+  const processLayer: RawEnv = {};
+  for (const [key, value] of Object.entries(env)) {
+    // eslint-disable-next-line security/detect-object-injection
+    if (value !== undefined) processLayer[key] = value;
+  }
+  apply(processLayer, options.envSource ?? PROCESS_ENV_SOURCE);
+
+  return { values, sources, files };
+}
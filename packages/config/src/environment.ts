@@ -1,21 +1,179 @@
 /**
  * Environment detection utilities
+ *
+ * Two separate dimensions:
+ * - NODE_ENV (development | production | test) describes how the code runs
+ *   and is what libraries look at.
+ * - APP_ENV (development | test | preview | staging | production) describes
+ *   where it is deployed. Each APP_ENV has a default profile (log level, docs
+ *   exposure, response validation). It defaults to NODE_ENV.
  */
 
+import { z } from 'zod';
+
 export type Environment = 'development' | 'production' | 'test';
 
+export const LOG_LEVELS = [
+  'fatal',
+  'error',
+  'warn',
+  'info',
+  'debug',
+  'trace',
+] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const APP_ENVIRONMENTS = [
+  'development',
+  'test',
+  'preview',
+  'staging',
+  'production',
+] as const;
+
+export type AppEnvironment = (typeof APP_ENVIRONMENTS)[number];
+
+/**
+ * How handler responses are checked against their schema: not at all,
+ * logging mismatches, or replacing mismatching responses with a 500
+ */
+export const RESPONSE_VALIDATION_MODES = ['off', 'log', 'enforce'] as const;
+
+export type ResponseValidationMode = (typeof RESPONSE_VALIDATION_MODES)[number];
+
+export const NodeEnvSchema = z
+  .enum(['development', 'production', 'test'], {
+    errorMap: () => ({
+      message: 'NODE_ENV must be one of: development, production, test',
+    }),
+  })
+  .default('development')
+  .describe('Runtime environment');
+
+export const AppEnvSchema = z
+  .enum(APP_ENVIRONMENTS, {
+    errorMap: () => ({
+      message: `APP_ENV must be one of: ${APP_ENVIRONMENTS.join(', ')}`,
+    }),
+  })
+  .optional()
+  .describe('Deployment environment; defaults to NODE_ENV when unset');
+
+/** Defaults and behaviour switches that follow the deployment environment */
+export interface EnvironmentProfile {
+  /** Hardened like production: no developer tooling, quieter logs */
+  productionLike: boolean;
+  /** LOG_LEVEL used when it is not set explicitly */
+  logLevel: LogLevel;
+  /** Human-readable (pino-pretty) log output */
+  prettyLogs: boolean;
+  /** Serve the Swagger UI and OpenAPI document */
+  exposeDocs: boolean;
+  /** Check handler responses against their schema */
+  responseValidation: ResponseValidationMode;
+  /** Share of responses checked, from 0 to 1 */
+  responseValidationSampleRate: number;
+  /** Include the per-check breakdown in health responses */
+  exposeHealthDetails: boolean;
+}
+
+export const ENVIRONMENT_PROFILES: Readonly<
+  Record<AppEnvironment, EnvironmentProfile>
+> = {
+  development: {
+    productionLike: false,
+    logLevel: 'debug',
+    prettyLogs: true,
+    exposeDocs: true,
+    responseValidation: 'enforce',
+    responseValidationSampleRate: 1,
+    exposeHealthDetails: true,
+  },
+  test: {
+    productionLike: false,
+    logLevel: 'info',
+    prettyLogs: false,
+    exposeDocs: true,
+    responseValidation: 'enforce',
+    responseValidationSampleRate: 1,
+    exposeHealthDetails: true,
+  },
+  preview: {
+    productionLike: false,
+    logLevel: 'debug',
+    prettyLogs: false,
+    exposeDocs: true,
+    responseValidation: 'enforce',
+    responseValidationSampleRate: 1,
+    exposeHealthDetails: false,
+  },
+  staging: {
+    productionLike: true,
+    logLevel: 'info',
+    prettyLogs: false,
+    exposeDocs: true,
+    responseValidation: 'enforce',
+    responseValidationSampleRate: 1,
+    exposeHealthDetails: false,
+  },
+  production: {
+    productionLike: true,
+    logLevel: 'info',
+    prettyLogs: false,
+    exposeDocs: false,
+    responseValidation: 'log',
+    responseValidationSampleRate: 0.01,
+    exposeHealthDetails: false,
+  },
+};
+
 /**
  * Gets the current environment
  * @returns The current environment
+ * @throws Error if NODE_ENV is set to an unsupported value
  */
 export function getEnvironment(): Environment {
   const env = process.env['NODE_ENV'];
 
-  if (env === 'production' || env === 'test') {
-    return env;
+  // Unset is treated as development, matching the NODE_ENV schema default
+  const result = NodeEnvSchema.safeParse(env || undefined);
+  if (!result.success) {
+    const reason = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`Invalid NODE_ENV value: ${String(env)}. ${reason}`);
   }
 
-  return 'development';
+  return result.data;
+}
+
+/**
+ * Gets the current deployment environment (APP_ENV, falling back to NODE_ENV)
+ * @returns The current deployment environment
+ * @throws Error if APP_ENV or NODE_ENV is set to an unsupported value
+ */
+export function getAppEnvironment(): AppEnvironment {
+  const env = process.env['APP_ENV'];
+  if (!env) return getEnvironment();
+
+  const result = AppEnvSchema.unwrap().safeParse(env);
+  if (!result.success) {
+    const reason = result.error.errors.map(e => e.message).join(', ');
+    throw new Error(`Invalid APP_ENV value: ${env}. ${reason}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Gets the default profile of a deployment environment
+ * @param appEnv - The deployment environment (defaults to the current one)
+ * @returns The environment's profile
+ */
+export function getEnvironmentProfile(
+  appEnv: AppEnvironment = getAppEnvironment()
+): EnvironmentProfile {
+  // eslint-disable-next-line security/detect-object-injection
+  return ENVIRONMENT_PROFILES[appEnv];
 }
 
 /**
@@ -33,3 +191,15 @@ export function isDevelopment(): boolean {
 export function isProduction(): boolean {
   return getEnvironment() === 'production';
 }
+
+/**
+ * Checks if a deployment environment is hardened like production
+ * (production and staging by default)
+ * @param appEnv - The deployment environment (defaults to the current one)
+ * @returns True if the environment is production-like
+ */
+export function isProductionLike(
+  appEnv: AppEnvironment = getAppEnvironment()
+): boolean {
+  return getEnvironmentProfile(appEnv).productionLike;
+}
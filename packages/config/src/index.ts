@@ -4,3 +4,9 @@
 
 export * from './server-config.js';
 export * from './environment.js';
+export * from './env-files.js';
+export * from './config-loader.js';
+export * from './secret-files.js';
+export * from './env-example.js';
+export * from './config-cli.js';
+export * from './redaction.js';
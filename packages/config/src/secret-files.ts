@@ -0,0 +1,95 @@
+/**
+ * Docker/Kubernetes secret file support
+ *
+ * Any configuration field `NAME` can be supplied as `NAME_FILE`, the path of
+ * a mounted file holding the value. The file contents are read and trimmed,
+ * and the field is always treated as secret when logged.
+ */
+
+import { readFileSync } from 'node:fs';
+
+import type { EnvSources, RawEnv } from './env-files.js';
+
+export const SECRET_FILE_SUFFIX = '_FILE';
+
+export interface SecretFileIssue {
+  field: string;
+  source: string;
+  message: string;
+  code: 'secret_file_conflict' | 'secret_file_unreadable';
+}
+
+export interface ResolvedSecretFiles {
+  /** Values with every `NAME_FILE` replaced by the file contents under `NAME` */
+  values: RawEnv;
+  /** Sources with file-backed fields pointing at their file path */
+  sources: EnvSources;
+  /** Fields whose value was read from a file */
+  secretFields: string[];
+  issues: SecretFileIssue[];
+}
+
+/**
+ * Replaces `NAME_FILE` entries with the contents of the referenced files
+ * @param values - Merged raw environment values
+ * @param sources - Source of each raw value
+ * @param fields - Configuration fields that may be file-backed
+ * @returns The resolved values, their sources and any problems found
+ */
+export function resolveSecretFiles(
+  values: RawEnv,
+  sources: EnvSources,
+  fields: readonly string[]
+): ResolvedSecretFiles {
+  const resolved: RawEnv = { ...values };
+  const resolvedSources: EnvSources = { ...sources };
+  const secretFields: string[] = [];
+  const issues: SecretFileIssue[] = [];
+
+  for (const field of fields) {
+    const fileKey = `${field}${SECRET_FILE_SUFFIX}`;
+    // eslint-disable-next-line security/detect-object-injection
+    const path = values[fileKey];
+    if (path === undefined) continue;
+
+    // eslint-disable-next-line security/detect-object-injection
+    const fileKeySource = sources[fileKey] ?? fileKey;
+    // eslint-disable-next-line security/detect-object-injection
+    delete resolved[fileKey];
+    // eslint-disable-next-line security/detect-object-injection
+    delete resolvedSources[fileKey];
+
+    // eslint-disable-next-line security/detect-object-injection
+    if (values[field] !== undefined) {
+      issues.push({
+        field,
+        source: fileKeySource,
+        // eslint-disable-next-line security/detect-object-injection
+        message: `${field} and ${fileKey} are both set (${sources[field] ?? 'unknown'} and ${fileKeySource}); set only one`,
+        code: 'secret_file_conflict',
+      });
+      continue;
+    }
+
+    try {
+      // eslint-disable-next-line security/detect-object-injection
+      resolved[field] = readFileSync(path, 'utf8').trim();
+      // eslint-disable-next-line security/detect-object-injection
+      resolvedSources[field] = path;
+      secretFields.push(field);
+    } catch (error) {
+      const reason =
+        error instanceof Error && 'code' in error
+          ? String(error.code)
+          : 'unreadable';
+      issues.push({
+        field,
+        source: fileKeySource,
+        message: `${fileKey} points to a file that cannot be read: ${path} (${reason})`,
+        code: 'secret_file_unreadable',
+      });
+    }
+  }
+
+  return { values: resolved, sources: resolvedSources, secretFields, issues };
+}
@@ -1,7 +1,19 @@
 /**
  * Server configuration utilities for Fastify applications
+ *
+ * These read a single value straight from process.env, validated by the same
+ * Zod schemas `defineConfig()` uses, so they can never disagree with the
+ * loaded configuration. `getListenTarget` works on the loaded configuration
+ * itself, where conflicting listen modes have already been rejected.
  */
 
+import {
+  HostSchema,
+  inheritedSocketCount,
+  PortSchema,
+  type BaseConfig,
+} from './config-loader.js';
+
 export const DEFAULT_PORT = 3000; // Standard HTTP port
 export const DEFAULT_HOST = 'localhost';
 
@@ -13,14 +25,14 @@ export function getPort(): number {
   const envPort = process.env['PORT'];
   if (!envPort) return DEFAULT_PORT;
 
-  const port = parseInt(envPort, 10);
-  if (isNaN(port) || port <= 0 || port > 65535) {
+  const result = PortSchema.safeParse(envPort);
+  if (!result.success) {
     throw new Error(
       `Invalid PORT value: ${envPort}. Must be a number between 1-65535.`
     );
   }
 
-  return port;
+  return result.data;
 }
 
 /**
@@ -30,5 +42,48 @@ export function getPort(): number {
 export function getHost(): string {
   // Use || instead of ?? because empty string should be treated as "not set"
 
-  return process.env['HOST'] || DEFAULT_HOST;
+  return HostSchema.parse(process.env['HOST'] || DEFAULT_HOST);
+}
+
+/** First file descriptor passed by systemd socket activation */
+export const SD_LISTEN_FDS_START = 3;
+
+/** Where the server accepts connections; see `getListenTarget` */
+export type ListenTarget =
+  | { kind: 'tcp'; host: string; port: number }
+  | { kind: 'socket'; path: string; mode?: number }
+  | { kind: 'fd'; fd: number };
+
+/**
+ * Resolves the listen mode of the loaded configuration. Sockets passed by
+ * systemd are only used when LISTEN_PID names this process.
+ * @param config - The loaded configuration
+ * @param pid - The current process id
+ * @returns The inherited socket, Unix socket or TCP address to listen on
+ */
+export function getListenTarget(
+  config: Pick<
+    BaseConfig,
+    | 'HOST'
+    | 'PORT'
+    | 'LISTEN_SOCKET'
+    | 'LISTEN_SOCKET_MODE'
+    | 'LISTEN_FDS'
+    | 'LISTEN_PID'
+  >,
+  pid: number = process.pid
+): ListenTarget {
+  if (inheritedSocketCount(config, pid) > 0) {
+    return { kind: 'fd', fd: SD_LISTEN_FDS_START };
+  }
+  if (config.LISTEN_SOCKET !== undefined) {
+    return {
+      kind: 'socket',
+      path: config.LISTEN_SOCKET,
+      ...(config.LISTEN_SOCKET_MODE !== undefined && {
+        mode: config.LISTEN_SOCKET_MODE,
+      }),
+    };
+  }
+  return { kind: 'tcp', host: config.HOST, port: config.PORT };
 }
@@ -0,0 +1,157 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { runConfigCli } from '../src/config-cli.js';
+import { defineConfig } from '../src/config-loader.js';
+
+describe('config-cli', () => {
+  let dir: string;
+  let out: string[];
+  let err: string[];
+
+  const definition = defineConfig();
+
+  const run = (argv: string[], env: NodeJS.ProcessEnv = {}) =>
+    runConfigCli(definition, argv, {
+      redact: (config, secretFields) =>
+        Object.fromEntries(
+          Object.entries(config).map(([key, value]) => [
+            key,
+            secretFields.includes(key) ? '[REDACTED]' : value,
+          ])
+        ),
+      env,
+      cwd: dir,
+      stdout: text => out.push(text),
+      stderr: text => err.push(text),
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'config-cli-'));
+    out = [];
+    err = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should print usage and fail without a command', () => {
+    expect(run([])).toBe(2);
+    expect(err.join('\n')).toContain('Usage: config <command>');
+  });
+
+  it('should print usage with --help', () => {
+    expect(run(['--help'])).toBe(0);
+    expect(out.join('\n')).toContain('Usage: config <command>');
+  });
+
+  it('should reject unknown commands and options', () => {
+    expect(run(['deploy'])).toBe(2);
+    expect(err[0]).toBe('Unknown command: deploy');
+    expect(run(['validate', '--nope'])).toBe(2);
+  });
+
+  describe('validate', () => {
+    it('should succeed for a valid environment', () => {
+      writeFileSync(join(dir, '.env.production'), 'PORT=8080');
+
+      expect(run(['validate', '--env', 'production'])).toBe(0);
+      expect(out[0]).toBe(
+        '✔ Configuration is valid for production (files: .env.production)'
+      );
+    });
+
+    it('should ignore the current environment when --env is given', () => {
+      expect(run(['validate', '--env', 'test'], { PORT: 'bad' })).toBe(0);
+    });
+
+    it('should target an APP_ENV with --app-env', () => {
+      writeFileSync(join(dir, '.env.production'), 'PORT=8080');
+
+      expect(
+        run(['validate', '--env', 'production', '--app-env', 'staging'], {
+          APP_ENV: 'preview',
+          PORT: 'bad',
+        })
+      ).toBe(0);
+      expect(out[0]).toBe(
+        '✔ Configuration is valid for staging (NODE_ENV production) (files: .env.production)'
+      );
+    });
+
+    it('should reject an unknown --app-env', () => {
+      expect(run(['validate', '--app-env', 'qa'])).toBe(1);
+      expect(err).toEqual([
+        '✖ Configuration is invalid:',
+        '  APP_ENV from --app-env: APP_ENV must be one of: development, test, preview, staging, production',
+      ]);
+    });
+
+    it('should list every issue with its source', () => {
+      writeFileSync(join(dir, '.env.production'), 'PORT=abc');
+
+      expect(run(['validate', '--env', 'production'])).toBe(1);
+      expect(err).toEqual([
+        '✖ Configuration is invalid:',
+        '  PORT from .env.production: PORT must contain only numeric characters',
+      ]);
+    });
+  });
+
+  describe('print', () => {
+    it('should print values with their sources', () => {
+      writeFileSync(join(dir, '.env'), 'HOST=0.0.0.0');
+
+      expect(run(['print'], { PORT: '8080' })).toBe(0);
+      expect(out).toContain('PORT       8080  (process.env)');
+      expect(out).toContain('HOST       "0.0.0.0"  (.env)');
+      expect(out).toContain('LOG_LEVEL  "debug"  (profile:development)');
+    });
+
+    it('should apply the --app-env profile', () => {
+      expect(run(['print', '--json', '--app-env', 'production'])).toBe(0);
+      const printed = JSON.parse(out.join('\n'));
+      expect(printed.config.APP_ENV).toBe('production');
+      expect(printed.sources.APP_ENV).toBe('--app-env');
+      expect(printed.sources.LOG_LEVEL).toBe('profile:production');
+    });
+
+    it('should redact secret values', () => {
+      const secret = join(dir, 'host');
+      writeFileSync(secret, 'internal');
+
+      expect(run(['print', '--json'], { HOST_FILE: secret })).toBe(0);
+      const printed = JSON.parse(out.join('\n'));
+      expect(printed.config.HOST).toBe('[REDACTED]');
+      expect(printed.sources.HOST).toBe(secret);
+    });
+  });
+
+  describe('example', () => {
+    it('should print the example to stdout', () => {
+      expect(run(['example'])).toBe(0);
+      expect(out.join('\n')).toContain('NODE_ENV=development');
+    });
+
+    it('should write and check the example file', () => {
+      expect(run(['example', '--output', '.env.example'])).toBe(0);
+      expect(readFileSync(join(dir, '.env.example'), 'utf8')).toContain(
+        'PORT=3000'
+      );
+
+      expect(run(['example', '--output', '.env.example', '--check'])).toBe(0);
+
+      writeFileSync(join(dir, '.env.example'), 'PORT=1\n');
+      expect(run(['example', '--output', '.env.example', '--check'])).toBe(1);
+      expect(err[0]).toContain('.env.example is out of date');
+    });
+
+    it('should require --output with --check', () => {
+      expect(run(['example', '--check'])).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,378 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+
+import {
+  BaseConfigSchema,
+  ConfigValidationError,
+  DEFAULT_SOURCE,
+  defineConfig,
+  diffConfig,
+  durationMsSchema,
+} from '../src/config-loader.js';
+import { generateEnvExample } from '../src/env-example.js';
+
+describe('config-loader', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'config-loader-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('BaseConfigSchema', () => {
+    it('should apply defaults', () => {
+      // APP_ENV and LOG_LEVEL are derived by the loader, not the schema
+      expect(BaseConfigSchema.parse({})).toEqual({
+        NODE_ENV: 'development',
+        PORT: 3000,
+        HOST: 'localhost',
+      });
+    });
+  });
+
+  describe('durationMsSchema', () => {
+    const schema = durationMsSchema('TIMEOUT', 500, 'Timeout');
+
+    it('should parse milliseconds and apply the default', () => {
+      expect(schema.parse('1500')).toBe(1500);
+      expect(schema.parse(undefined)).toBe(500);
+    });
+
+    it('should reject values that are not whole milliseconds', () => {
+      for (const value of ['1.5', '-1', '10s', '']) {
+        expect(() => schema.parse(value)).toThrow(
+          'TIMEOUT must be a whole number of milliseconds'
+        );
+      }
+    });
+  });
+
+  describe('defineConfig', () => {
+    it('should load the base configuration with sources', () => {
+      writeFileSync(join(dir, '.env'), 'HOST=0.0.0.0');
+
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { PORT: '8080' },
+      });
+
+      expect(loaded.config).toEqual({
+        NODE_ENV: 'development',
+        APP_ENV: 'development',
+        PORT: 8080,
+        HOST: '0.0.0.0',
+        LOG_LEVEL: 'debug',
+      });
+      expect(loaded.sources).toEqual({
+        NODE_ENV: DEFAULT_SOURCE,
+        APP_ENV: DEFAULT_SOURCE,
+        PORT: 'process.env',
+        HOST: '.env',
+        LISTEN_SOCKET: DEFAULT_SOURCE,
+        LISTEN_SOCKET_MODE: DEFAULT_SOURCE,
+        LISTEN_FDS: DEFAULT_SOURCE,
+        LISTEN_PID: DEFAULT_SOURCE,
+        LOG_LEVEL: 'profile:development',
+      });
+      expect(loaded.files).toEqual(['.env']);
+    });
+
+    it('should only report sources for schema fields', () => {
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { UNRELATED: 'x' },
+      });
+
+      expect(loaded.sources).not.toHaveProperty('UNRELATED');
+      expect(loaded.config).not.toHaveProperty('UNRELATED');
+    });
+
+    it('should merge plugin fragments into the schema', () => {
+      const definition = defineConfig()
+        .extend({ FEATURE_FLAG: z.enum(['on', 'off']).default('off') })
+        .extend({ RETRIES: z.coerce.number().int().default(3) });
+
+      const loaded = definition.load({
+        cwd: dir,
+        env: { FEATURE_FLAG: 'on' },
+      });
+
+      expect(loaded.config.FEATURE_FLAG).toBe('on');
+      expect(loaded.config.RETRIES).toBe(3);
+      expect(loaded.config.PORT).toBe(3000);
+      expect(Object.keys(definition.schema.shape)).toContain('RETRIES');
+    });
+
+    it('should not mutate the definition it extends', () => {
+      const base = defineConfig();
+      base.extend({ EXTRA: z.string().default('x') });
+
+      expect(Object.keys(base.schema.shape)).not.toContain('EXTRA');
+    });
+
+    it('should throw a ConfigValidationError naming the source', () => {
+      writeFileSync(join(dir, '.env.test'), 'PORT=abc');
+
+      try {
+        defineConfig().load({ cwd: dir, env: { NODE_ENV: 'test' } });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        if (error instanceof ConfigValidationError) {
+          expect(error.message).toBe(
+            'Environment validation failed: PORT from .env.test: PORT must contain only numeric characters'
+          );
+          expect(error.issues[0]).toMatchObject({
+            field: 'PORT',
+            source: '.env.test',
+          });
+        }
+      }
+    });
+
+    it('should report every invalid field', () => {
+      expect(() =>
+        defineConfig().load({
+          cwd: dir,
+          env: { NODE_ENV: 'staging', LOG_LEVEL: 'loud' },
+        })
+      ).toThrow(/NODE_ENV from process\.env: .*LOG_LEVEL from process\.env: /);
+    });
+  });
+
+  describe('deployment environment', () => {
+    it('should default APP_ENV to NODE_ENV', () => {
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { NODE_ENV: 'production' },
+      });
+
+      expect(loaded.config.APP_ENV).toBe('production');
+      expect(loaded.sources['APP_ENV']).toBe('NODE_ENV');
+    });
+
+    it('should keep APP_ENV separate from NODE_ENV', () => {
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { NODE_ENV: 'production', APP_ENV: 'staging' },
+      });
+
+      expect(loaded.config.NODE_ENV).toBe('production');
+      expect(loaded.config.APP_ENV).toBe('staging');
+      expect(loaded.sources['APP_ENV']).toBe('process.env');
+    });
+
+    it('should apply the profile log level when LOG_LEVEL is unset', () => {
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { NODE_ENV: 'production', APP_ENV: 'preview' },
+      });
+
+      expect(loaded.config.LOG_LEVEL).toBe('debug');
+      expect(loaded.sources['LOG_LEVEL']).toBe('profile:preview');
+    });
+
+    it('should prefer an explicit LOG_LEVEL over the profile', () => {
+      writeFileSync(join(dir, '.env'), 'LOG_LEVEL=warn');
+
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { APP_ENV: 'preview' },
+      });
+
+      expect(loaded.config.LOG_LEVEL).toBe('warn');
+      expect(loaded.sources['LOG_LEVEL']).toBe('.env');
+    });
+
+    it('should keep deriving the environment from a copied example', () => {
+      writeFileSync(
+        join(dir, '.env'),
+        generateEnvExample(defineConfig().schema)
+      );
+
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { NODE_ENV: 'production' },
+      });
+
+      expect(loaded.config.APP_ENV).toBe('production');
+      expect(loaded.sources['APP_ENV']).toBe('NODE_ENV');
+      expect(loaded.config.LOG_LEVEL).toBe('info');
+      expect(loaded.sources['LOG_LEVEL']).toBe('profile:production');
+    });
+
+    it('should reject unknown APP_ENV values', () => {
+      expect(() =>
+        defineConfig().load({ cwd: dir, env: { APP_ENV: 'qa' } })
+      ).toThrow(
+        'APP_ENV from process.env: APP_ENV must be one of: development, test, preview, staging, production'
+      );
+    });
+  });
+
+  describe('reloadable fields', () => {
+    it('should mark LOG_LEVEL as reloadable by default', () => {
+      expect(defineConfig().reloadable).toEqual(['LOG_LEVEL']);
+    });
+
+    it('should add reloadable fields from fragments', () => {
+      const definition = defineConfig().extend(
+        {
+          RATE_LIMIT: z.coerce.number().default(100),
+          FEATURE: z.string().default('x'),
+        },
+        { reloadable: ['RATE_LIMIT'] }
+      );
+
+      expect(definition.reloadable).toEqual(['LOG_LEVEL', 'RATE_LIMIT']);
+    });
+  });
+
+  describe('validation rules', () => {
+    const definition = defineConfig().extend(
+      {
+        MIN: z.coerce.number().default(0),
+        MAX: z.coerce.number().default(10),
+      },
+      {
+        validate: ({ MIN, MAX }) =>
+          MIN > MAX
+            ? [{ field: 'MIN', message: 'MIN must not exceed MAX' }]
+            : [],
+      }
+    );
+
+    it('should accept configurations that satisfy the rules', () => {
+      const { config } = definition.load({ cwd: dir, env: { MIN: '5' } });
+
+      expect(config).toMatchObject({ MIN: 5, MAX: 10 });
+    });
+
+    it('should report rule violations with the field source', () => {
+      writeFileSync(join(dir, '.env'), 'MAX=3');
+
+      try {
+        definition.load({ cwd: dir, env: { MIN: '5' } });
+        expect.fail('Should have thrown an error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        if (error instanceof ConfigValidationError) {
+          expect(error.issues).toEqual([
+            {
+              field: 'MIN',
+              source: 'process.env',
+              message: 'MIN must not exceed MAX',
+              code: 'invalid_combination',
+            },
+          ]);
+        }
+      }
+    });
+
+    it('should accept a single listen mode', () => {
+      const load = (env: NodeJS.ProcessEnv) =>
+        defineConfig().load({ cwd: dir, env }).config;
+
+      expect(load({ LISTEN_SOCKET: '/run/app.sock' })).toMatchObject({
+        LISTEN_SOCKET: '/run/app.sock',
+      });
+      expect(
+        load({ LISTEN_FDS: '1', LISTEN_PID: String(process.pid) })
+      ).toMatchObject({ LISTEN_FDS: 1, LISTEN_PID: process.pid });
+    });
+
+    it('should reject conflicting listen modes', () => {
+      writeFileSync(join(dir, '.env'), 'PORT=8080');
+
+      expect(() =>
+        defineConfig().load({
+          cwd: dir,
+          env: {
+            LISTEN_SOCKET: '/run/app.sock',
+            LISTEN_FDS: '1',
+            LISTEN_PID: String(process.pid),
+          },
+        })
+      ).toThrow(
+        'Environment validation failed: LISTEN_SOCKET from process.env: LISTEN_SOCKET cannot be combined with LISTEN_FDS; choose one listen mode, PORT from .env: PORT cannot be combined with LISTEN_SOCKET; choose one listen mode'
+      );
+    });
+
+    it('should accept a copied example in every listen mode', () => {
+      writeFileSync(
+        join(dir, '.env'),
+        generateEnvExample(defineConfig().schema)
+      );
+      const load = (env: NodeJS.ProcessEnv) =>
+        defineConfig().load({ cwd: dir, env }).config;
+
+      expect(load({ LISTEN_SOCKET: '/run/app.sock' })).toMatchObject({
+        HOST: 'localhost',
+        PORT: 3000,
+        LISTEN_SOCKET: '/run/app.sock',
+      });
+      expect(
+        load({ LISTEN_FDS: '1', LISTEN_PID: String(process.pid) })
+      ).toMatchObject({ LISTEN_FDS: 1 });
+      expect(() =>
+        load({ LISTEN_SOCKET: '/run/app.sock', HOST: '0.0.0.0' })
+      ).toThrow('HOST cannot be combined with LISTEN_SOCKET');
+    });
+
+    it('should not check sockets passed to another process', () => {
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { PORT: '8080', LISTEN_FDS: '2', LISTEN_PID: '1' },
+      });
+
+      expect(loaded.config).toMatchObject({ PORT: 8080, LISTEN_FDS: 2 });
+    });
+
+    it('should validate the socket-activation settings', () => {
+      expect(() =>
+        defineConfig().load({
+          cwd: dir,
+          env: { LISTEN_FDS: '2', LISTEN_PID: String(process.pid) },
+        })
+      ).toThrow('LISTEN_FDS passes 2 sockets; only one is supported');
+      expect(() =>
+        defineConfig().load({ cwd: dir, env: { LISTEN_SOCKET_MODE: '660' } })
+      ).toThrow('LISTEN_SOCKET_MODE requires LISTEN_SOCKET');
+      expect(() =>
+        defineConfig().load({
+          cwd: dir,
+          env: { LISTEN_SOCKET: '/run/app.sock', LISTEN_SOCKET_MODE: 'rw' },
+        })
+      ).toThrow('LISTEN_SOCKET_MODE must be an octal file mode such as 660');
+    });
+
+    it('should keep the rules of every fragment', () => {
+      const extended = definition.extend({ EXTRA: z.string().default('x') });
+
+      expect(() => extended.load({ cwd: dir, env: { MIN: '11' } })).toThrow(
+        'MIN from process.env: MIN must not exceed MAX'
+      );
+    });
+  });
+
+  describe('diffConfig', () => {
+    it('should return an empty list for equal configurations', () => {
+      expect(diffConfig({ A: 1, B: 'x' }, { A: 1, B: 'x' })).toEqual([]);
+    });
+
+    it('should list changed, added and removed fields', () => {
+      expect(diffConfig({ A: 1, B: 'x' }, { A: 2, C: true })).toEqual([
+        { field: 'A', previous: 1, next: 2 },
+        { field: 'C', previous: undefined, next: true },
+        { field: 'B', previous: 'x', next: undefined },
+      ]);
+    });
+  });
+});
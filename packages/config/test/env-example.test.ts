@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+
+import { BaseConfigSchema } from '../src/config-loader.js';
+import { describeEnvField, generateEnvExample } from '../src/env-example.js';
+
+describe('env-example', () => {
+  describe('describeEnvField', () => {
+    it('should document enums with defaults and messages', () => {
+      expect(
+        describeEnvField('NODE_ENV', BaseConfigSchema.shape.NODE_ENV)
+      ).toEqual({
+        name: 'NODE_ENV',
+        description: 'Runtime environment',
+        allowedValues: ['development', 'production', 'test'],
+        validation: ['NODE_ENV must be one of: development, production, test'],
+        defaultValue: 'development',
+        required: false,
+      });
+    });
+
+    it('should surface validation messages of effect schemas', () => {
+      const doc = describeEnvField('PORT', BaseConfigSchema.shape.PORT);
+
+      expect(doc.defaultValue).toBe('3000');
+      expect(doc.validation).toContain(
+        'PORT must contain only numeric characters'
+      );
+      expect(doc.allowedValues).toBeUndefined();
+    });
+
+    it('should mark fields without a default as required', () => {
+      const doc = describeEnvField(
+        'API_TOKEN',
+        z.string().min(32, 'API_TOKEN must be at least 32 characters')
+      );
+
+      expect(doc.required).toBe(true);
+      expect(doc.defaultValue).toBeUndefined();
+      expect(doc.validation).toEqual([
+        'API_TOKEN must be at least 32 characters',
+      ]);
+    });
+
+    it('should treat optional fields as not required', () => {
+      expect(describeEnvField('X', z.string().optional()).required).toBe(false);
+    });
+  });
+
+  describe('generateEnvExample', () => {
+    it('should write one documented entry per field', () => {
+      const content = generateEnvExample(BaseConfigSchema, {
+        header: ['Example header'],
+        reloadable: ['LOG_LEVEL'],
+      });
+
+      expect(content.startsWith('# Example header\n')).toBe(true);
+      expect(content).toContain('<NAME>_FILE');
+      expect(content).toContain('\nPORT=3000\n');
+      expect(content).toContain(
+        '# Allowed values: fatal, error, warn, info, debug, trace'
+      );
+      expect(content).toMatch(
+        /# Reloadable at runtime \(SIGHUP\) without a restart\n# LOG_LEVEL=\n$/
+      );
+    });
+
+    it('should leave required values empty', () => {
+      const content = generateEnvExample(z.object({ API_TOKEN: z.string() }));
+
+      expect(content).toContain('# Required\nAPI_TOKEN=\n');
+    });
+
+    it('should comment out fields derived from the environment', () => {
+      expect(generateEnvExample(BaseConfigSchema)).toContain('\n# APP_ENV=\n');
+      expect(
+        generateEnvExample(z.object({ MODE: z.string().default('fast') }), {
+          derived: ['MODE'],
+        })
+      ).toContain('# Optional\n# MODE=fast\n');
+    });
+
+    it('should comment out optional values without a default', () => {
+      const content = generateEnvExample(
+        z.object({ CACHE_DIR: z.string().optional() })
+      );
+
+      expect(content).toContain('# Optional\n# CACHE_DIR=\n');
+    });
+  });
+});
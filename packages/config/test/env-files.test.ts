@@ -0,0 +1,140 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  getEnvFileNames,
+  loadEnvFiles,
+  parseEnvFile,
+  PROCESS_ENV_SOURCE,
+} from '../src/env-files.js';
+
+describe('env-files', () => {
+  describe('parseEnvFile', () => {
+    it('should parse simple key/value pairs', () => {
+      expect(parseEnvFile('PORT=3000\nHOST=localhost')).toEqual({
+        PORT: '3000',
+        HOST: 'localhost',
+      });
+    });
+
+    it('should ignore comments, blank lines and invalid keys', () => {
+      const content = '# comment\n\n  # indented comment\n1INVALID=x\nOK=yes';
+      expect(parseEnvFile(content)).toEqual({ OK: 'yes' });
+    });
+
+    it('should support export prefixes and surrounding whitespace', () => {
+      expect(parseEnvFile('export  LOG_LEVEL = debug ')).toEqual({
+        LOG_LEVEL: 'debug',
+      });
+    });
+
+    it('should unquote values and expand \\n in double quotes only', () => {
+      const content = `A="line1\\nline2"\nB='raw\\nvalue'\nC="has # hash"`;
+      expect(parseEnvFile(content)).toEqual({
+        A: 'line1\nline2',
+        B: 'raw\\nvalue',
+        C: 'has # hash',
+      });
+    });
+
+    it('should strip inline comments from unquoted values', () => {
+      expect(parseEnvFile('PORT=3000 # default port')).toEqual({
+        PORT: '3000',
+      });
+    });
+
+    it('should keep everything after the first equals sign', () => {
+      expect(parseEnvFile('URL=http://host/?a=b')).toEqual({
+        URL: 'http://host/?a=b',
+      });
+    });
+  });
+
+  describe('getEnvFileNames', () => {
+    it('should list files from lowest to highest precedence', () => {
+      expect(getEnvFileNames('development')).toEqual([
+        '.env',
+        '.env.development',
+        '.env.local',
+      ]);
+    });
+
+    it('should skip .env.local in test', () => {
+      expect(getEnvFileNames('test')).toEqual(['.env', '.env.test']);
+    });
+  });
+
+  describe('loadEnvFiles', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'env-files-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return only the given env when no files exist', () => {
+      const result = loadEnvFiles({ cwd: dir, env: { PORT: '4000' } });
+
+      expect(result.values).toEqual({ PORT: '4000' });
+      expect(result.sources).toEqual({ PORT: PROCESS_ENV_SOURCE });
+      expect(result.files).toEqual([]);
+    });
+
+    it('should apply files in precedence order', () => {
+      writeFileSync(join(dir, '.env'), 'PORT=1000\nHOST=base\nLOG_LEVEL=warn');
+      writeFileSync(join(dir, '.env.development'), 'PORT=2000\nHOST=dev');
+      writeFileSync(join(dir, '.env.local'), 'PORT=3000');
+
+      const result = loadEnvFiles({ cwd: dir, env: {} });
+
+      expect(result.values).toEqual({
+        PORT: '3000',
+        HOST: 'dev',
+        LOG_LEVEL: 'warn',
+      });
+      expect(result.sources).toEqual({
+        PORT: '.env.local',
+        HOST: '.env.development',
+        LOG_LEVEL: '.env',
+      });
+      expect(result.files).toEqual(['.env', '.env.development', '.env.local']);
+    });
+
+    it('should let the given env override every file', () => {
+      writeFileSync(join(dir, '.env'), 'PORT=1000');
+      writeFileSync(join(dir, '.env.local'), 'PORT=3000');
+
+      const result = loadEnvFiles({ cwd: dir, env: { PORT: '9999' } });
+
+      expect(result.values['PORT']).toBe('9999');
+      expect(result.sources['PORT']).toBe(PROCESS_ENV_SOURCE);
+    });
+
+    it('should pick the overlay from NODE_ENV in the env', () => {
+      writeFileSync(join(dir, '.env.test'), 'PORT=5000');
+      writeFileSync(join(dir, '.env.production'), 'PORT=6000');
+      writeFileSync(join(dir, '.env.local'), 'PORT=7000');
+
+      const result = loadEnvFiles({ cwd: dir, env: { NODE_ENV: 'test' } });
+
+      expect(result.values['PORT']).toBe('5000');
+      expect(result.sources['PORT']).toBe('.env.test');
+    });
+
+    it('should fall back to NODE_ENV from the base .env file', () => {
+      writeFileSync(join(dir, '.env'), 'NODE_ENV=production');
+      writeFileSync(join(dir, '.env.production'), 'PORT=6000');
+
+      const result = loadEnvFiles({ cwd: dir, env: {} });
+
+      expect(result.values['PORT']).toBe('6000');
+      expect(result.files).toEqual(['.env', '.env.production']);
+    });
+  });
+});
@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
+  APP_ENVIRONMENTS,
+  getAppEnvironment,
   getEnvironment,
+  getEnvironmentProfile,
   isDevelopment,
   isProduction,
+  isProductionLike,
 } from '../src/environment.js';
 
 describe('environment', () => {
@@ -34,10 +38,17 @@ describe('environment', () => {
       expect(getEnvironment()).toBe('test');
     });
 
-    it('should return development for unknown NODE_ENV values', () => {
-      process.env['NODE_ENV'] = 'staging';
+    it('should return development when NODE_ENV is empty', () => {
+      process.env['NODE_ENV'] = '';
       expect(getEnvironment()).toBe('development');
     });
+
+    it('should reject unknown NODE_ENV values like the config schema', () => {
+      process.env['NODE_ENV'] = 'staging';
+      expect(() => getEnvironment()).toThrow(
+        'Invalid NODE_ENV value: staging. NODE_ENV must be one of: development, production, test'
+      );
+    });
   });
 
   describe('isDevelopment', () => {
@@ -73,4 +84,70 @@ describe('environment', () => {
       expect(isProduction()).toBe(false);
     });
   });
+
+  describe('getAppEnvironment', () => {
+    it('should fall back to NODE_ENV when APP_ENV is unset', () => {
+      delete process.env['APP_ENV'];
+      process.env['NODE_ENV'] = 'production';
+      expect(getAppEnvironment()).toBe('production');
+    });
+
+    it('should return APP_ENV independently of NODE_ENV', () => {
+      process.env['NODE_ENV'] = 'production';
+      process.env['APP_ENV'] = 'staging';
+      expect(getAppEnvironment()).toBe('staging');
+    });
+
+    it('should reject unknown APP_ENV values', () => {
+      process.env['APP_ENV'] = 'qa';
+      expect(() => getAppEnvironment()).toThrow(
+        'Invalid APP_ENV value: qa. APP_ENV must be one of: development, test, preview, staging, production'
+      );
+    });
+  });
+
+  describe('getEnvironmentProfile', () => {
+    it('should define a profile for every deployment environment', () => {
+      for (const appEnv of APP_ENVIRONMENTS) {
+        expect(getEnvironmentProfile(appEnv)).toEqual({
+          productionLike: expect.any(Boolean),
+          logLevel: expect.any(String),
+          prettyLogs: expect.any(Boolean),
+          exposeDocs: expect.any(Boolean),
+          responseValidation: expect.any(String),
+          responseValidationSampleRate: expect.any(Number),
+          exposeHealthDetails: expect.any(Boolean),
+        });
+      }
+    });
+
+    it('should hide docs and only sample response validation in production', () => {
+      expect(getEnvironmentProfile('production')).toMatchObject({
+        exposeDocs: false,
+        responseValidation: 'log',
+        responseValidationSampleRate: 0.01,
+      });
+    });
+
+    it('should use the current environment by default', () => {
+      process.env['APP_ENV'] = 'preview';
+      expect(getEnvironmentProfile()).toBe(getEnvironmentProfile('preview'));
+    });
+  });
+
+  describe('isProductionLike', () => {
+    it('should be true for production and staging only', () => {
+      expect(APP_ENVIRONMENTS.filter(env => isProductionLike(env))).toEqual([
+        'staging',
+        'production',
+      ]);
+    });
+
+    it('should follow APP_ENV rather than NODE_ENV', () => {
+      process.env['NODE_ENV'] = 'production';
+      process.env['APP_ENV'] = 'preview';
+      expect(isProductionLike()).toBe(false);
+      expect(isProduction()).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,124 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { ConfigValidationError, defineConfig } from '../src/config-loader.js';
+import { resolveSecretFiles } from '../src/secret-files.js';
+
+describe('secret-files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'secret-files-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('resolveSecretFiles', () => {
+    it('should read and trim the referenced file', () => {
+      const path = join(dir, 'host');
+      writeFileSync(path, '  db.internal\n');
+
+      const result = resolveSecretFiles(
+        { HOST_FILE: path },
+        { HOST_FILE: 'process.env' },
+        ['HOST']
+      );
+
+      expect(result.values).toEqual({ HOST: 'db.internal' });
+      expect(result.sources).toEqual({ HOST: path });
+      expect(result.secretFields).toEqual(['HOST']);
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should ignore _FILE variables for unknown fields', () => {
+      const result = resolveSecretFiles(
+        { OTHER_FILE: '/nowhere' },
+        { OTHER_FILE: 'process.env' },
+        ['HOST']
+      );
+
+      expect(result.values).toEqual({ OTHER_FILE: '/nowhere' });
+      expect(result.secretFields).toEqual([]);
+    });
+
+    it('should reject NAME and NAME_FILE being set together', () => {
+      const path = join(dir, 'host');
+      writeFileSync(path, 'db.internal');
+
+      const result = resolveSecretFiles(
+        { HOST: 'localhost', HOST_FILE: path },
+        { HOST: '.env', HOST_FILE: 'process.env' },
+        ['HOST']
+      );
+
+      expect(result.secretFields).toEqual([]);
+      expect(result.issues).toEqual([
+        {
+          field: 'HOST',
+          source: 'process.env',
+          message:
+            'HOST and HOST_FILE are both set (.env and process.env); set only one',
+          code: 'secret_file_conflict',
+        },
+      ]);
+    });
+
+    it('should report files that cannot be read', () => {
+      const path = join(dir, 'missing');
+
+      const result = resolveSecretFiles(
+        { HOST_FILE: path },
+        { HOST_FILE: 'process.env' },
+        ['HOST']
+      );
+
+      expect(result.issues[0]).toMatchObject({
+        field: 'HOST',
+        code: 'secret_file_unreadable',
+      });
+      expect(result.issues[0]?.message).toContain('ENOENT');
+    });
+  });
+
+  describe('defineConfig integration', () => {
+    it('should validate file-sourced values against the schema', () => {
+      const path = join(dir, 'port');
+      writeFileSync(path, '8443\n');
+
+      const loaded = defineConfig().load({
+        cwd: dir,
+        env: { PORT_FILE: path },
+      });
+
+      expect(loaded.config.PORT).toBe(8443);
+      expect(loaded.sources['PORT']).toBe(path);
+      expect(loaded.secretFields).toEqual(['PORT']);
+    });
+
+    it('should name the secret file when its value is invalid', () => {
+      const path = join(dir, 'port');
+      writeFileSync(path, 'not-a-port');
+
+      expect(() =>
+        defineConfig().load({ cwd: dir, env: { PORT_FILE: path } })
+      ).toThrow(`PORT from ${path}: PORT must contain only numeric characters`);
+    });
+
+    it('should fail loading on conflicting variables', () => {
+      const path = join(dir, 'port');
+      writeFileSync(path, '8443');
+
+      expect(() =>
+        defineConfig().load({
+          cwd: dir,
+          env: { PORT: '8080', PORT_FILE: path },
+        })
+      ).toThrow(ConfigValidationError);
+    });
+  });
+});
@@ -1,9 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { defineConfig } from '../src/config-loader.js';
 import {
   getPort,
   getHost,
+  getListenTarget,
   DEFAULT_PORT,
   DEFAULT_HOST,
+  SD_LISTEN_FDS_START,
 } from '../src/server-config.js';
 
 describe('server-config', () => {
@@ -70,4 +73,54 @@ describe('server-config', () => {
       expect(getHost()).toBe(DEFAULT_HOST);
     });
   });
+
+  describe('getListenTarget', () => {
+    const load = (env: NodeJS.ProcessEnv) =>
+      defineConfig().load({ cwd: '/nonexistent', env }).config;
+
+    it('should listen on HOST and PORT by default', () => {
+      expect(getListenTarget(load({ PORT: '8080' }))).toEqual({
+        kind: 'tcp',
+        host: DEFAULT_HOST,
+        port: 8080,
+      });
+    });
+
+    it('should listen on a Unix socket with optional permissions', () => {
+      expect(getListenTarget(load({ LISTEN_SOCKET: '/run/app.sock' }))).toEqual(
+        { kind: 'socket', path: '/run/app.sock' }
+      );
+      expect(
+        getListenTarget(
+          load({ LISTEN_SOCKET: '/run/app.sock', LISTEN_SOCKET_MODE: '660' })
+        )
+      ).toEqual({ kind: 'socket', path: '/run/app.sock', mode: 0o660 });
+    });
+
+    const pid = String(process.pid);
+
+    it('should listen on the socket inherited from systemd', () => {
+      expect(
+        getListenTarget(load({ LISTEN_FDS: '1', LISTEN_PID: pid }))
+      ).toEqual({
+        kind: 'fd',
+        fd: SD_LISTEN_FDS_START,
+      });
+    });
+
+    it('should ignore LISTEN_FDS=0', () => {
+      expect(
+        getListenTarget(load({ LISTEN_FDS: '0', LISTEN_PID: pid })).kind
+      ).toBe('tcp');
+    });
+
+    it('should ignore sockets passed to another process', () => {
+      // Inherited from a socket-activated parent
+      const config = load({ LISTEN_FDS: '1', LISTEN_PID: '1' });
+
+      expect(getListenTarget(config).kind).toBe('tcp');
+      expect(getListenTarget(load({ LISTEN_FDS: '1' })).kind).toBe('tcp');
+      expect(getListenTarget(config, 1).kind).toBe('fd');
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import { containsSensitiveData } from '@ai-fastify-template/config';
 import fc from 'fast-check';
 
 /**
@@ -436,21 +437,16 @@ export const apiInvariants = {
     statusCode >= 100 && statusCode < 600,
 
   /**
-   * Response must not leak sensitive information
+   * Response must not leak sensitive information: secrets (shared redaction
+   * rules from @ai-fastify-template/config) or internal error details
    */
   noSensitiveDataLeak: (responseBody: string): boolean => {
     const lowerBody = responseBody.toLowerCase();
-    const sensitivePatterns = [
-      /password/,
-      /secret/,
-      /key/,
-      /token/,
-      /private/,
-      /stack trace/,
-      /error:/,
-      /exception:/,
-    ];
-    return !sensitivePatterns.some(pattern => pattern.test(lowerBody));
+    const internalDetailPatterns = [/stack trace/, /error:/, /exception:/];
+    return (
+      !containsSensitiveData(responseBody) &&
+      !internalDetailPatterns.some(pattern => pattern.test(lowerBody))
+    );
   },
 
   /**
@@ -460,13 +456,13 @@ export const apiInvariants = {
     'content-type' in headers || 'Content-Type' in headers,
 
   /**
-   * Error responses should have proper structure
+   * Error responses should be RFC 7807 problem details
    */
   properErrorStructure: (statusCode: number, body: unknown): boolean => {
     if (statusCode >= 400) {
       if (typeof body === 'object' && body !== null) {
         const errorBody = body as Record<string, unknown>;
-        return 'statusCode' in errorBody && 'error' in errorBody;
+        return 'status' in errorBody && 'title' in errorBody;
       }
       // Non-JSON error responses are acceptable
       return true;
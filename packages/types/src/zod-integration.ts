@@ -197,25 +197,25 @@ export const ZodBrandedSchemas = {
  * // Results in: { userId: UserId }
  * ```
  */
-export function createIdParamSchema<T>(
-  paramName: string,
+export function createIdParamSchema<Name extends string, T>(
+  paramName: Name,
   idSchema: z.ZodType<T>
-): z.ZodObject<Record<string, z.ZodType<T>>> {
+): z.ZodObject<Record<Name, z.ZodType<T>>> {
   return z.object({
     [paramName]: idSchema,
-  } as Record<string, z.ZodType<T>>);
+  } as Record<Name, z.ZodType<T>>);
 }
 
 /**
  * Schema for query parameters with optional ID filters.
  */
-export function createIdQuerySchema<T>(
-  paramName: string,
+export function createIdQuerySchema<Name extends string, T>(
+  paramName: Name,
   idSchema: z.ZodType<T>
-): z.ZodObject<Record<string, z.ZodOptional<z.ZodType<T>>>> {
+): z.ZodObject<Record<Name, z.ZodOptional<z.ZodType<T>>>> {
   return z.object({
     [paramName]: idSchema.optional(),
-  } as Record<string, z.ZodOptional<z.ZodType<T>>>);
+  } as Record<Name, z.ZodOptional<z.ZodType<T>>>);
 }
 
 /**
@@ -323,7 +323,10 @@ export const ExampleApiSchemas = {
 
 /**
  * Helper to create Fastify route schema with branded types.
- * Provides proper typing for request handlers.
+ * Provides proper typing for request handlers when the route is registered
+ * through a Zod type provider (see the backend's `plugins/zod.ts`). For
+ * replies typed per status, pass the schema to the backend's `defineRoute()`
+ * directly: this helper widens response keys to `number`.
  */
 export function createFastifySchema<
   TParams = unknown,
@@ -348,63 +351,3 @@ export function createFastifySchema<
     ...(schema.response && { response: schema.response }),
   };
 }
-
-/**
- * Type-safe request handler type for Fastify with branded types.
- */
-export type BrandedFastifyHandler<
-  TParams = unknown,
-  TQuerystring = unknown,
-  TBody = unknown,
-  TResponse = unknown,
-> = (
-  request: {
-    params: TParams;
-    query: TQuerystring;
-    body: TBody;
-  },
-  reply: {
-    code: (statusCode: number) => { send: (payload: TResponse) => void };
-    send: (payload: TResponse) => void;
-  }
-) => Promise<TResponse | void>;
-
-/**
- * Example of type-safe Fastify route with branded types.
- * This demonstrates the complete integration pattern.
- */
-export const ExampleTypeSafeRoute = {
-  schema: createFastifySchema({
-    params: ExampleApiSchemas.GetUserParams,
-    response: {
-      200: z.object({
-        id: ZodBrandedSchemas.UserId,
-        email: ZodBrandedSchemas.EmailAddress,
-        name: z.string(),
-        roleId: ZodBrandedSchemas.RoleId.optional(),
-        createdAt: z.string(),
-        updatedAt: z.string(),
-      }),
-    },
-  }),
-  // Simplified handler without complex type assertions
-  handler: (
-    request: { params: { userId: UserId } },
-    reply: { code: (status: number) => { send: (data: unknown) => void } }
-  ) => {
-    // request.params.userId is typed as UserId through schema validation
-    const { userId } = request.params;
-
-    // Business logic here...
-    // The userId is guaranteed to be a valid branded UserId
-
-    // Note: In real implementation, you would construct branded types properly
-    reply.code(200).send({
-      id: userId,
-      email: 'user@example.com' as unknown as EmailAddress, // Would be EmailAddress in real implementation
-      name: 'John Doe',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    });
-  },
-} as const;
@@ -222,9 +222,8 @@ describe('Zod Integration', () => {
 
         const result = GetUserParams.parse({ userId: VALID_UUID });
 
-        // TODO: Fix TypeScript error with index signatures
-        // expectTypeOf(result).toEqualTypeOf<{ userId: UserId }>();
-        expect(unwrap(result['userId'])).toBe(VALID_UUID);
+        expectTypeOf(result).toEqualTypeOf<{ userId: UserId }>();
+        expect(unwrap(result.userId)).toBe(VALID_UUID);
       });
 
       it('should validate parameter format', () => {
@@ -250,8 +249,11 @@ describe('Zod Integration', () => {
         const withParam = QuerySchema.parse({ userId: VALID_UUID });
         const withoutParam = QuerySchema.parse({});
 
-        expect(unwrap(withParam['userId']!)).toBe(VALID_UUID);
-        expect(withoutParam['userId']).toBeUndefined();
+        expectTypeOf(withParam).toEqualTypeOf<{
+          userId?: UserId | undefined;
+        }>();
+        expect(unwrap(withParam.userId!)).toBe(VALID_UUID);
+        expect(withoutParam.userId).toBeUndefined();
       });
     });
 